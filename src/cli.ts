@@ -6,8 +6,12 @@ import * as fs from 'fs';
 
 // Check for environment variables
 const apiKey = process.env.OBSIDIAN_API_KEY || process.env.OBSIDIAN_REST_API_KEY || 'fallback-no-api';
-const port = process.env.OBSIDIAN_PORT || '27123';
+const port = process.env.OBSIDIAN_PORT || '';
 const host = process.env.OBSIDIAN_HOST || '127.0.0.1';
+const protocol = process.env.OBSIDIAN_PROTOCOL || '';
+const certPath = process.env.OBSIDIAN_CERT_PATH || '';
+const certFingerprint = process.env.OBSIDIAN_CERT_FINGERPRINT || '';
+const trustSelfSigned = /^(1|true|yes)$/i.test(process.env.OBSIDIAN_TRUST_SELF_SIGNED || '');
 const vaultPath = process.env.OBSIDIAN_VAULT_PATH || '';
 
 // MCP servers must not output non-JSON to stderr as it breaks the protocol
@@ -16,10 +20,30 @@ const vaultPath = process.env.OBSIDIAN_VAULT_PATH || '';
 const args = [
   path.join(__dirname, 'index.js'),
   '--apiKey', apiKey,
-  '--port', port,
   '--host', host
 ];
 
+// Without a port or protocol the server finds the plugin on its default http or https port
+if (port) {
+  args.push('--port', port);
+}
+
+if (protocol) {
+  args.push('--protocol', protocol);
+}
+
+if (certPath) {
+  args.push('--certPath', certPath);
+}
+
+if (certFingerprint) {
+  args.push('--certFingerprint', certFingerprint);
+}
+
+if (trustSelfSigned) {
+  args.push('--trustSelfSigned');
+}
+
 if (vaultPath) {
   args.push('--vaultPath', vaultPath);
 }
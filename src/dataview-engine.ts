@@ -0,0 +1,1464 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { FilesystemSearch } from './filesystem-search';
+import { LinkResolver, resolveNoteLink, splitLinkTarget } from './link-resolver';
+import {
+  extractFrontmatter,
+  extractInlineFields,
+  extractLinks,
+  extractTags,
+  extractTasks,
+  NoteLink
+} from './note-parser';
+
+/**
+ * Local interpreter for a subset of the Dataview Query Language (DQL), used when
+ * the Local REST API or the Dataview plugin is not available.
+ *
+ * Supported: TABLE [WITHOUT ID] / LIST [WITHOUT ID] / TASK, FROM (folders, #tags,
+ * [[links]], outgoing([[links]]), and/or/negation), WHERE, SORT, GROUP BY, LIMIT, FLATTEN.
+ */
+
+export interface DataviewResult {
+  filename: string;
+  result: JsonValue;
+}
+
+type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
+
+// --- Values ---
+
+export class DataviewLink {
+  constructor(
+    public path: string,
+    public display?: string,
+    public embed: boolean = false,
+    public subpath?: string
+  ) {}
+
+  toJSON() {
+    return {
+      path: this.path,
+      ...(this.display && { display: this.display }),
+      ...(this.subpath && { subpath: this.subpath }),
+      embed: this.embed,
+      type: 'file'
+    };
+  }
+
+  toString(): string {
+    return this.display || path.posix.basename(this.path, '.md');
+  }
+}
+
+export class Duration {
+  constructor(public ms: number) {}
+
+  toJSON(): string {
+    return this.toString();
+  }
+
+  toString(): string {
+    const units: Array<[string, number]> = [
+      ['day', 86400000],
+      ['hour', 3600000],
+      ['minute', 60000],
+      ['second', 1000]
+    ];
+    let remaining = Math.abs(this.ms);
+    const parts: string[] = [];
+    for (const [name, size] of units) {
+      const count = Math.floor(remaining / size);
+      if (count > 0) {
+        parts.push(`${count} ${name}${count === 1 ? '' : 's'}`);
+        remaining -= count * size;
+      }
+    }
+    const text = parts.length > 0 ? parts.join(', ') : '0 seconds';
+    return this.ms < 0 ? `-${text}` : text;
+  }
+}
+
+/** Anything a field can hold or an expression can evaluate to */
+export type DataviewValue =
+  | string
+  | number
+  | boolean
+  | Date
+  | Duration
+  | DataviewLink
+  | DataviewValue[]
+  | DataviewObject
+  | null;
+
+export interface DataviewObject {
+  [key: string]: DataviewValue;
+}
+
+interface Task extends DataviewObject {
+  path: string;
+  link: DataviewLink;
+}
+
+interface PageFile extends DataviewObject {
+  path: string;
+  link: DataviewLink;
+  day: Date | null;
+  tags: string[];
+  inlinks: DataviewLink[];
+  outlinks: DataviewLink[];
+  tasks: Task[];
+  frontmatter: DataviewObject;
+}
+
+interface Page extends DataviewObject {
+  file: PageFile;
+}
+
+/** What commands operate on: pages, tasks carrying their page's file fields, or groups of either */
+type Row = DataviewObject;
+
+// --- Query AST ---
+
+type Expr =
+  | { type: 'literal'; value: DataviewValue }
+  | { type: 'field'; name: string }
+  | { type: 'index'; object: Expr; index: Expr }
+  | { type: 'member'; object: Expr; name: string }
+  | { type: 'call'; name: string; args: Expr[] }
+  | { type: 'list'; items: Expr[] }
+  | { type: 'unary'; op: '-' | '!'; operand: Expr }
+  | { type: 'binary'; op: string; left: Expr; right: Expr };
+
+type Source =
+  | { type: 'all' }
+  | { type: 'folder'; path: string }
+  | { type: 'tag'; tag: string }
+  | { type: 'incoming'; target: string }
+  | { type: 'outgoing'; target: string }
+  | { type: 'not'; source: Source }
+  | { type: 'and' | 'or'; left: Source; right: Source };
+
+type Command =
+  | { type: 'where'; expr: Expr }
+  | { type: 'sort'; keys: Array<{ expr: Expr; direction: 'asc' | 'desc' }> }
+  | { type: 'group'; expr: Expr; name: string }
+  | { type: 'flatten'; expr: Expr; name: string }
+  | { type: 'limit'; count: number };
+
+interface ParsedQuery {
+  queryType: 'table' | 'list' | 'task';
+  withoutId: boolean;
+  fields: Array<{ expr: Expr; name: string }>;
+  source: Source;
+  commands: Command[];
+}
+
+// --- Lexer ---
+
+interface Token {
+  type: 'number' | 'string' | 'ident' | 'link' | 'tag' | 'op' | 'eof';
+  value: string;
+  start: number;
+  end: number;
+}
+
+const IDENT_START = /[A-Za-z_\u00C0-\uFFFF]/;
+const IDENT_PART = /[\w\u00C0-\uFFFF-]/;
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const ch = query[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    // Line comments
+    if (query.startsWith('//', i)) {
+      while (i < query.length && query[i] !== '\n') i++;
+      continue;
+    }
+
+    const start = i;
+
+    if (query.startsWith('[[', i)) {
+      const close = query.indexOf(']]', i + 2);
+      if (close === -1) throw new Error(`dataview syntax error: unclosed link at position ${i}`);
+      tokens.push({ type: 'link', value: query.slice(i + 2, close), start, end: close + 2 });
+      i = close + 2;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      let value = '';
+      i++;
+      while (i < query.length && query[i] !== ch) {
+        if (query[i] === '\\' && i + 1 < query.length) {
+          const next = query[i + 1];
+          value += next === 'n' ? '\n' : next === 't' ? '\t' : next;
+          i += 2;
+        } else {
+          value += query[i++];
+        }
+      }
+      if (i >= query.length) throw new Error(`dataview syntax error: unclosed string at position ${start}`);
+      i++;
+      tokens.push({ type: 'string', value, start, end: i });
+      continue;
+    }
+
+    if (/\d/.test(ch)) {
+      const match = query.slice(i).match(/^\d+(\.\d+)?/)!;
+      i += match[0].length;
+      tokens.push({ type: 'number', value: match[0], start, end: i });
+      continue;
+    }
+
+    if (ch === '#' && i + 1 < query.length && /[\w\u00C0-\uFFFF/-]/.test(query[i + 1])) {
+      i++;
+      while (i < query.length && /[\w\u00C0-\uFFFF/-]/.test(query[i])) i++;
+      tokens.push({ type: 'tag', value: query.slice(start, i), start, end: i });
+      continue;
+    }
+
+    if (IDENT_START.test(ch)) {
+      while (i < query.length && IDENT_PART.test(query[i])) i++;
+      tokens.push({ type: 'ident', value: query.slice(start, i), start, end: i });
+      continue;
+    }
+
+    const twoChar = query.slice(i, i + 2);
+    if (['!=', '<=', '>=', '&&', '||'].includes(twoChar)) {
+      tokens.push({ type: 'op', value: twoChar, start, end: i + 2 });
+      i += 2;
+      continue;
+    }
+
+    if ('()[],.+-*/%=<>!&|'.includes(ch)) {
+      tokens.push({ type: 'op', value: ch, start, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    throw new Error(`dataview syntax error: unexpected character "${ch}" at position ${i}`);
+  }
+
+  tokens.push({ type: 'eof', value: '', start: query.length, end: query.length });
+  return tokens;
+}
+
+// --- Parser ---
+
+const COMMAND_KEYWORDS = new Set(['from', 'where', 'sort', 'group', 'limit', 'flatten']);
+const DATE_KEYWORD_REGEX =
+  /^(today|now|yesterday|tomorrow|sow|eow|som|eom|soy|eoy|\d{4}-\d{2}(-\d{2})?(T[\d:.]+)?(Z|[+-]\d{2}:?\d{2})?)$/i;
+
+class QueryParser {
+  private tokens: Token[];
+  private pos = 0;
+
+  constructor(private query: string) {
+    this.tokens = tokenize(query);
+  }
+
+  parse(): ParsedQuery {
+    const typeToken = this.next();
+    const queryType = typeToken.value.toLowerCase();
+    if (typeToken.type !== 'ident' || !['table', 'list', 'task'].includes(queryType)) {
+      throw new Error(
+        `dataview syntax error: query must start with TABLE, LIST or TASK, got "${typeToken.value}". CALENDAR queries are not supported locally`
+      );
+    }
+
+    const parsed: ParsedQuery = {
+      queryType: queryType as ParsedQuery['queryType'],
+      withoutId: false,
+      fields: [],
+      source: { type: 'all' },
+      commands: []
+    };
+
+    if (this.isKeyword('without')) {
+      this.next();
+      this.expectKeyword('id');
+      parsed.withoutId = true;
+    }
+
+    if (parsed.queryType === 'table') {
+      while (!this.atCommand() && !this.at('eof')) {
+        const start = this.peek().start;
+        const expr = this.parseExpression();
+        let name = this.query.slice(start, this.tokens[this.pos - 1].end).trim();
+        if (this.isKeyword('as')) {
+          this.next();
+          const nameToken = this.next();
+          if (nameToken.type !== 'string' && nameToken.type !== 'ident') {
+            throw new Error(`dataview syntax error: expected a column name after AS`);
+          }
+          name = nameToken.value;
+        }
+        parsed.fields.push({ expr, name });
+        if (!this.atOp(',')) break;
+        this.next();
+      }
+    } else if (parsed.queryType === 'list' && !this.atCommand() && !this.at('eof')) {
+      const start = this.peek().start;
+      const expr = this.parseExpression();
+      parsed.fields.push({ expr, name: this.query.slice(start, this.tokens[this.pos - 1].end).trim() });
+    }
+
+    if (this.isKeyword('from')) {
+      this.next();
+      parsed.source = this.parseSourceOr();
+    }
+
+    while (!this.at('eof')) {
+      const keyword = this.next();
+      switch (keyword.value.toLowerCase()) {
+        case 'where':
+          parsed.commands.push({ type: 'where', expr: this.parseExpression() });
+          break;
+        case 'sort': {
+          const keys: Array<{ expr: Expr; direction: 'asc' | 'desc' }> = [];
+          do {
+            if (keys.length > 0) this.next();
+            const expr = this.parseExpression();
+            let direction: 'asc' | 'desc' = 'asc';
+            if (this.isKeyword('asc', 'ascending')) {
+              this.next();
+            } else if (this.isKeyword('desc', 'descending')) {
+              this.next();
+              direction = 'desc';
+            }
+            keys.push({ expr, direction });
+          } while (this.atOp(','));
+          parsed.commands.push({ type: 'sort', keys });
+          break;
+        }
+        case 'group':
+        case 'flatten': {
+          const isGroup = keyword.value.toLowerCase() === 'group';
+          if (isGroup) this.expectKeyword('by');
+          const start = this.peek().start;
+          const expr = this.parseExpression();
+          let name = isGroup ? 'key' : this.query.slice(start, this.tokens[this.pos - 1].end).trim();
+          if (this.isKeyword('as')) {
+            this.next();
+            name = this.next().value;
+          }
+          parsed.commands.push(isGroup ? { type: 'group', expr, name } : { type: 'flatten', expr, name });
+          break;
+        }
+        case 'limit': {
+          const count = this.next();
+          if (count.type !== 'number') throw new Error('dataview syntax error: LIMIT needs a number');
+          parsed.commands.push({ type: 'limit', count: parseInt(count.value, 10) });
+          break;
+        }
+        default:
+          throw new Error(`dataview syntax error: unexpected "${keyword.value}" at position ${keyword.start}`);
+      }
+    }
+
+    return parsed;
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (this.pos < this.tokens.length - 1) this.pos++;
+    return token;
+  }
+
+  private at(type: Token['type']): boolean {
+    return this.peek().type === type;
+  }
+
+  private atOp(...ops: string[]): boolean {
+    const token = this.peek();
+    return token.type === 'op' && ops.includes(token.value);
+  }
+
+  private isKeyword(...words: string[]): boolean {
+    const token = this.peek();
+    return token.type === 'ident' && words.includes(token.value.toLowerCase());
+  }
+
+  private atCommand(): boolean {
+    return this.peek().type === 'ident' && COMMAND_KEYWORDS.has(this.peek().value.toLowerCase());
+  }
+
+  private expectKeyword(word: string): void {
+    const token = this.next();
+    if (token.type !== 'ident' || token.value.toLowerCase() !== word) {
+      throw new Error(`dataview syntax error: expected "${word.toUpperCase()}" but got "${token.value}"`);
+    }
+  }
+
+  private expectOp(op: string): void {
+    const token = this.next();
+    if (token.type !== 'op' || token.value !== op) {
+      throw new Error(`dataview syntax error: expected "${op}" but got "${token.value || 'end of query'}"`);
+    }
+  }
+
+  // FROM sources: or > and > negation > atom
+
+  private parseSourceOr(): Source {
+    let left = this.parseSourceAnd();
+    while (this.isKeyword('or') || this.atOp('|', '||')) {
+      this.next();
+      left = { type: 'or', left, right: this.parseSourceAnd() };
+    }
+    return left;
+  }
+
+  private parseSourceAnd(): Source {
+    let left = this.parseSourceUnary();
+    while (this.isKeyword('and') || this.atOp('&', '&&')) {
+      this.next();
+      left = { type: 'and', left, right: this.parseSourceUnary() };
+    }
+    return left;
+  }
+
+  private parseSourceUnary(): Source {
+    if (this.atOp('-', '!')) {
+      this.next();
+      return { type: 'not', source: this.parseSourceUnary() };
+    }
+    return this.parseSourceAtom();
+  }
+
+  private parseSourceAtom(): Source {
+    const token = this.next();
+    switch (token.type) {
+      case 'string':
+        return token.value.trim() === '' ? { type: 'all' } : { type: 'folder', path: token.value };
+      case 'tag':
+        return { type: 'tag', tag: token.value };
+      case 'link':
+        return { type: 'incoming', target: splitLinkTarget(token.value).target };
+      case 'ident':
+        if (token.value.toLowerCase() === 'outgoing') {
+          this.expectOp('(');
+          const link = this.next();
+          if (link.type !== 'link') throw new Error('dataview syntax error: outgoing() expects a [[link]]');
+          this.expectOp(')');
+          return { type: 'outgoing', target: splitLinkTarget(link.value).target };
+        }
+        break;
+      case 'op':
+        if (token.value === '(') {
+          const inner = this.parseSourceOr();
+          this.expectOp(')');
+          return inner;
+        }
+        break;
+    }
+    throw new Error(
+      `dataview syntax error: invalid FROM source "${token.value}". use "folder", #tag, [[link]] or outgoing([[link]])`
+    );
+  }
+
+  // Expressions: or > and > comparison > additive > multiplicative > unary > postfix > primary
+
+  parseExpression(): Expr {
+    return this.parseOr();
+  }
+
+  private parseOr(): Expr {
+    let left = this.parseAnd();
+    while (this.isKeyword('or') || this.atOp('|', '||')) {
+      this.next();
+      left = { type: 'binary', op: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): Expr {
+    let left = this.parseComparison();
+    while (this.isKeyword('and') || this.atOp('&', '&&')) {
+      this.next();
+      left = { type: 'binary', op: 'and', left, right: this.parseComparison() };
+    }
+    return left;
+  }
+
+  private parseComparison(): Expr {
+    let left = this.parseAdditive();
+    while (this.atOp('=', '!=', '<', '<=', '>', '>=')) {
+      const op = this.next().value;
+      left = { type: 'binary', op, left, right: this.parseAdditive() };
+    }
+    return left;
+  }
+
+  private parseAdditive(): Expr {
+    let left = this.parseMultiplicative();
+    while (this.atOp('+', '-')) {
+      const op = this.next().value;
+      left = { type: 'binary', op, left, right: this.parseMultiplicative() };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): Expr {
+    let left = this.parseUnary();
+    while (this.atOp('*', '/', '%')) {
+      const op = this.next().value;
+      left = { type: 'binary', op, left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): Expr {
+    if (this.atOp('-', '!')) {
+      const op = this.next().value as '-' | '!';
+      return { type: 'unary', op, operand: this.parseUnary() };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): Expr {
+    let expr = this.parsePrimary();
+    while (true) {
+      if (this.atOp('.')) {
+        this.next();
+        const name = this.next();
+        if (name.type !== 'ident') throw new Error(`dataview syntax error: expected a field name after "."`);
+        expr = { type: 'member', object: expr, name: name.value };
+      } else if (this.atOp('[')) {
+        this.next();
+        const index = this.parseExpression();
+        this.expectOp(']');
+        expr = { type: 'index', object: expr, index };
+      } else {
+        return expr;
+      }
+    }
+  }
+
+  private parsePrimary(): Expr {
+    const token = this.next();
+    switch (token.type) {
+      case 'number':
+        return { type: 'literal', value: parseFloat(token.value) };
+      case 'string':
+        return { type: 'literal', value: token.value };
+      case 'link': {
+        const { target, subpath, alias } = splitLinkTarget(token.value);
+        return { type: 'call', name: 'link', args: [
+          { type: 'literal', value: target + subpath },
+          { type: 'literal', value: alias.replace(/^\|/, '') || null }
+        ] };
+      }
+      case 'op':
+        if (token.value === '(') {
+          const inner = this.parseExpression();
+          this.expectOp(')');
+          return inner;
+        }
+        if (token.value === '[') {
+          const items: Expr[] = [];
+          while (!this.atOp(']')) {
+            items.push(this.parseExpression());
+            if (!this.atOp(',')) break;
+            this.next();
+          }
+          this.expectOp(']');
+          return { type: 'list', items };
+        }
+        break;
+      case 'ident': {
+        const lower = token.value.toLowerCase();
+        if (lower === 'true' || lower === 'false') return { type: 'literal', value: lower === 'true' };
+        if (lower === 'null') return { type: 'literal', value: null };
+
+        if (this.atOp('(')) {
+          // date(today) and dur(7 days) take bare literals, so read their raw text
+          if (lower === 'date' || lower === 'dur') {
+            const raw = this.rawCallArgument();
+            if (raw !== null) return { type: 'call', name: lower, args: [{ type: 'literal', value: raw }] };
+          }
+          this.next();
+          const args: Expr[] = [];
+          while (!this.atOp(')')) {
+            args.push(this.parseExpression());
+            if (!this.atOp(',')) break;
+            this.next();
+          }
+          this.expectOp(')');
+          return { type: 'call', name: lower, args };
+        }
+        return { type: 'field', name: token.value };
+      }
+    }
+    throw new Error(`dataview syntax error: unexpected "${token.value || 'end of query'}" at position ${token.start}`);
+  }
+
+  /**
+   * For date()/dur(): return the literal text inside the parentheses when it is not an expression
+   */
+  private rawCallArgument(): string | null {
+    const open = this.peek();
+    let depth = 0;
+    let closeIndex = -1;
+    for (let i = this.pos; i < this.tokens.length; i++) {
+      const token = this.tokens[i];
+      if (token.type === 'op' && token.value === '(') depth++;
+      if (token.type === 'op' && token.value === ')') depth--;
+      if (depth === 0) {
+        closeIndex = i;
+        break;
+      }
+    }
+    if (closeIndex === -1) return null;
+
+    const raw = this.query.slice(open.end, this.tokens[closeIndex].start).trim();
+    const previousToken = this.tokens[this.pos - 1].value.toLowerCase();
+    const isLiteral =
+      previousToken === 'dur'
+        ? /^[\d.]+\s*[a-z]/i.test(raw)
+        : DATE_KEYWORD_REGEX.test(raw);
+    if (!isLiteral) return null;
+
+    this.pos = closeIndex + 1;
+    return raw;
+  }
+}
+
+export function parseDql(query: string): ParsedQuery {
+  return new QueryParser(query).parse();
+}
+
+// --- Value helpers ---
+
+const DATE_STRING_REGEX = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+function parseDateString(value: string): Date | null {
+  if (!DATE_STRING_REGEX.test(value)) return null;
+  // Date-only values are local midnight, as in Dataview
+  const dateOnly = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const date = dateOnly
+    ? new Date(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3]))
+    : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function parseDateKeyword(value: string): Date | null {
+  const now = new Date();
+  const today = startOfDay(now);
+  const day = 86400000;
+  switch (value.toLowerCase()) {
+    case 'now':
+      return now;
+    case 'today':
+      return today;
+    case 'yesterday':
+      return new Date(today.getTime() - day);
+    case 'tomorrow':
+      return new Date(today.getTime() + day);
+    case 'sow':
+      return new Date(today.getTime() - ((today.getDay() + 6) % 7) * day);
+    case 'eow':
+      return new Date(today.getTime() + (6 - ((today.getDay() + 6) % 7)) * day);
+    case 'som':
+      return new Date(today.getFullYear(), today.getMonth(), 1);
+    case 'eom':
+      return new Date(today.getFullYear(), today.getMonth() + 1, 0);
+    case 'soy':
+      return new Date(today.getFullYear(), 0, 1);
+    case 'eoy':
+      return new Date(today.getFullYear(), 11, 31);
+  }
+  return parseDateString(value);
+}
+
+const DURATION_UNITS: Array<[RegExp, number]> = [
+  [/^(years?|yrs?|y)$/, 365 * 86400000],
+  [/^(months?|mo)$/, 30 * 86400000],
+  [/^(weeks?|wks?|w)$/, 7 * 86400000],
+  [/^(days?|d)$/, 86400000],
+  [/^(hours?|hrs?|h)$/, 3600000],
+  [/^(minutes?|mins?|m)$/, 60000],
+  [/^(seconds?|secs?|s)$/, 1000]
+];
+
+function parseDuration(value: string): Duration | null {
+  const regex = /(\d+(?:\.\d+)?)\s*([a-z]+)/gi;
+  let total = 0;
+  let found = false;
+  let match;
+  while ((match = regex.exec(value)) !== null) {
+    const unit = DURATION_UNITS.find(([pattern]) => pattern.test(match![2].toLowerCase()));
+    if (!unit) return null;
+    total += parseFloat(match[1]) * unit[1];
+    found = true;
+  }
+  return found ? new Duration(total) : null;
+}
+
+function isPage(value: DataviewObject): value is Page {
+  const file = value.file;
+  return file !== null && typeof file === 'object' && !Array.isArray(file) && (file as DataviewObject).link instanceof DataviewLink;
+}
+
+function truthy(value: DataviewValue): boolean {
+  if (value === null || value === undefined) return false;
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'number') return value !== 0;
+  if (typeof value === 'string') return value.length > 0;
+  if (value instanceof Duration) return value.ms !== 0;
+  return Boolean(value);
+}
+
+const TYPE_ORDER = ['null', 'boolean', 'number', 'duration', 'date', 'string', 'link', 'array', 'object'];
+
+function typeOf(value: DataviewValue): string {
+  if (value === null || value === undefined) return 'null';
+  if (value instanceof Date) return 'date';
+  if (value instanceof Duration) return 'duration';
+  if (value instanceof DataviewLink) return 'link';
+  if (Array.isArray(value)) return 'array';
+  return typeof value === 'object' ? 'object' : typeof value;
+}
+
+function compareValues(a: DataviewValue, b: DataviewValue): number {
+  // Links compare equal to their path or name, so `file.link = [[Note]]` and `x = "Note"` both work
+  if (a instanceof DataviewLink && typeof b === 'string') return compareLinkToString(a, b);
+  if (typeof a === 'string' && b instanceof DataviewLink) return -compareLinkToString(b, a);
+
+  const typeA = typeOf(a);
+  const typeB = typeOf(b);
+  if (typeA !== typeB) return TYPE_ORDER.indexOf(typeA) - TYPE_ORDER.indexOf(typeB);
+
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+  if (a instanceof Duration && b instanceof Duration) return a.ms - b.ms;
+  if (a instanceof DataviewLink && b instanceof DataviewLink) return compareValues(a.path, b.path);
+  if (Array.isArray(a) && Array.isArray(b)) {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      const result = compareValues(a[i], b[i]);
+      if (result !== 0) return result;
+    }
+    return a.length - b.length;
+  }
+  if (typeA === 'object') return compareValues(JSON.stringify(toJson(a)), JSON.stringify(toJson(b)));
+  // Both null, or both the same primitive type
+  return a === b ? 0 : (a as string | number | boolean) < (b as string | number | boolean) ? -1 : 1;
+}
+
+function compareLinkToString(link: DataviewLink, value: string): number {
+  const normalized = value.replace(/\.md$/, '');
+  if (link.path.replace(/\.md$/, '') === normalized || path.posix.basename(link.path, '.md') === normalized) {
+    return 0;
+  }
+  return compareValues(link.path, value);
+}
+
+function valueToString(value: DataviewValue): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof DataviewLink || value instanceof Duration) return value.toString();
+  if (Array.isArray(value)) return value.map(valueToString).join(', ');
+  if (typeof value === 'object') return JSON.stringify(toJson(value));
+  return String(value);
+}
+
+/**
+ * Convert evaluated values to plain JSON, rendering whole pages as links to keep results small
+ */
+function toJson(value: DataviewValue): JsonValue {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof DataviewLink) return value.toJSON();
+  if (value instanceof Duration) return value.toJSON();
+  if (Array.isArray(value)) return value.map(toJson);
+  if (typeof value === 'object') {
+    if (isPage(value)) return value.file.link.toJSON();
+    const result: Record<string, JsonValue> = {};
+    for (const [key, entry] of Object.entries(value)) result[key] = toJson(entry);
+    return result;
+  }
+  return value;
+}
+
+function contains(container: DataviewValue, item: DataviewValue, mode: 'substring' | 'insensitive' | 'exact'): boolean {
+  if (container === null || container === undefined) return false;
+  if (Array.isArray(container)) {
+    return mode === 'exact'
+      ? container.some(element => compareValues(element, item) === 0)
+      : container.some(element => contains(element, item, mode));
+  }
+  if (typeof container === 'string' || container instanceof DataviewLink) {
+    const haystack = container instanceof DataviewLink ? container.path : container;
+    const needle = valueToString(item);
+    if (mode === 'exact') return haystack === needle;
+    return mode === 'insensitive'
+      ? haystack.toLowerCase().includes(needle.toLowerCase())
+      : haystack.includes(needle);
+  }
+  if (typeof container === 'object' && !(container instanceof Date)) {
+    return Object.prototype.hasOwnProperty.call(container, valueToString(item));
+  }
+  return compareValues(container, item) === 0;
+}
+
+function formatDate(date: Date, format: string): string {
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  const tokens: Record<string, string> = {
+    yyyy: String(date.getFullYear()),
+    yy: pad(date.getFullYear() % 100),
+    MM: pad(date.getMonth() + 1),
+    M: String(date.getMonth() + 1),
+    dd: pad(date.getDate()),
+    d: String(date.getDate()),
+    HH: pad(date.getHours()),
+    H: String(date.getHours()),
+    mm: pad(date.getMinutes()),
+    ss: pad(date.getSeconds())
+  };
+  return format.replace(/yyyy|yy|MM|M|dd|d|HH|H|mm|ss/g, token => tokens[token]);
+}
+
+/**
+ * Normalize a field key the way Dataview does: "Due Date" is also reachable as "due-date"
+ */
+function sanitizeKey(key: string): string {
+  return key
+    .trim()
+    .toLowerCase()
+    .replace(/\*\*|__|[`~]/g, '')
+    .replace(/\s+/g, '-')
+    .replace(/[^\w\u00C0-\uFFFF-]/g, '');
+}
+
+// --- Engine ---
+
+export class DataviewEngine {
+  private vaultPath: string;
+  private search: FilesystemSearch;
+
+  constructor(vaultPath: string, search: FilesystemSearch) {
+    this.vaultPath = vaultPath;
+    this.search = search;
+  }
+
+  /**
+   * Run a DQL query against the vault files and return results shaped like the Local REST API's
+   */
+  async query(dql: string): Promise<DataviewResult[]> {
+    const parsed = parseDql(dql);
+    const pages = await this.loadPages();
+    const byPath = new Map(pages.map(page => [page.file.path as string, page]));
+
+    const selected = this.evaluateSource(parsed.source, pages);
+    let rows: Row[];
+
+    if (parsed.queryType === 'task') {
+      rows = [];
+      for (const page of pages) {
+        if (!selected.has(page.file.path)) continue;
+        rows.push(...page.file.tasks.map(task => ({ ...task, file: page.file })));
+      }
+    } else {
+      rows = pages.filter(page => selected.has(page.file.path));
+    }
+
+    let grouped = false;
+    for (const command of parsed.commands) {
+      const evaluate = (expr: Expr, row: Row) => this.evaluate(expr, row, byPath);
+      switch (command.type) {
+        case 'where':
+          rows = rows.filter(row => truthy(evaluate(command.expr, row)));
+          break;
+        case 'sort':
+          rows = [...rows].sort((a, b) => {
+            for (const key of command.keys) {
+              const result = compareValues(evaluate(key.expr, a), evaluate(key.expr, b));
+              if (result !== 0) return key.direction === 'desc' ? -result : result;
+            }
+            return 0;
+          });
+          break;
+        case 'group': {
+          const groups: Array<{ key: DataviewValue; rows: Row[] }> = [];
+          for (const row of rows) {
+            const key = evaluate(command.expr, row);
+            let group = groups.find(g => compareValues(g.key, key) === 0);
+            if (!group) {
+              group = { key, rows: [] };
+              groups.push(group);
+            }
+            group.rows.push(row);
+          }
+          rows = groups.map(group => ({ [command.name]: group.key, key: group.key, rows: group.rows }));
+          grouped = true;
+          break;
+        }
+        case 'flatten': {
+          const flattened: Row[] = [];
+          for (const row of rows) {
+            const value = evaluate(command.expr, row);
+            const items = Array.isArray(value) ? value : [value];
+            for (const item of items) flattened.push({ ...row, [command.name]: item });
+          }
+          rows = flattened;
+          break;
+        }
+        case 'limit':
+          rows = rows.slice(0, command.count);
+          break;
+      }
+    }
+
+    return this.formatResults(parsed, rows, grouped, byPath);
+  }
+
+  private formatResults(
+    parsed: ParsedQuery,
+    rows: Row[],
+    grouped: boolean,
+    byPath: Map<string, Page>
+  ): DataviewResult[] {
+    const rowName = (row: Row) => (grouped ? valueToString(row.key) : (row.file as PageFile).path);
+    const groupRows = (row: Row) => row.rows as Row[];
+
+    if (parsed.queryType === 'table') {
+      return rows.map(row => {
+        const result: Record<string, JsonValue> = {};
+        for (const field of parsed.fields) {
+          result[field.name] = toJson(this.evaluate(field.expr, row, byPath));
+        }
+        return { filename: rowName(row), result };
+      });
+    }
+
+    if (parsed.queryType === 'list') {
+      const listValue = (row: Row) =>
+        parsed.fields.length > 0
+          ? toJson(this.evaluate(parsed.fields[0].expr, row, byPath))
+          : (row.file as PageFile).link.toJSON();
+      return rows.map(row => ({
+        filename: rowName(row),
+        result: grouped ? groupRows(row).map(listValue) : listValue(row)
+      }));
+    }
+
+    // TASK: one entry per file (or per group) holding its matching tasks
+    const taskJson = (task: Row) => {
+      const { file, ...rest } = task;
+      return toJson(rest);
+    };
+    if (grouped) {
+      return rows.map(row => ({ filename: rowName(row), result: groupRows(row).map(taskJson) }));
+    }
+    const byFile = new Map<string, JsonValue[]>();
+    for (const task of rows) {
+      const file = task.path as string;
+      const list = byFile.get(file) || [];
+      list.push(taskJson(task));
+      byFile.set(file, list);
+    }
+    return Array.from(byFile, ([filename, result]) => ({ filename, result }));
+  }
+
+  private evaluateSource(source: Source, pages: Page[]): Set<string> {
+    const all = () => new Set(pages.map(page => page.file.path as string));
+    const allPaths = pages.map(page => page.file.path as string);
+
+    switch (source.type) {
+      case 'all':
+        return all();
+      case 'folder': {
+        const folder = source.path.replace(/^\/+|\/+$/g, '');
+        return new Set(
+          allPaths.filter(
+            file => file.startsWith(folder + '/') || file === folder || file === folder + '.md'
+          )
+        );
+      }
+      case 'tag': {
+        const tag = source.tag.toLowerCase();
+        return new Set(
+          pages
+            .filter(page => page.file.tags.some(t => t.toLowerCase() === tag))
+            .map(page => page.file.path)
+        );
+      }
+      case 'incoming': {
+        const target = resolveNoteLink(source.target, '', allPaths);
+        if (!target) return new Set();
+        return new Set(
+          pages
+            .filter(page => page.file.outlinks.some(link => link.path === target))
+            .map(page => page.file.path)
+        );
+      }
+      case 'outgoing': {
+        const target = resolveNoteLink(source.target, '', allPaths);
+        const page = pages.find(p => p.file.path === target);
+        if (!page) return new Set();
+        return new Set(page.file.outlinks.map(link => link.path).filter(p => allPaths.includes(p)));
+      }
+      case 'not': {
+        const excluded = this.evaluateSource(source.source, pages);
+        return new Set(allPaths.filter(file => !excluded.has(file)));
+      }
+      case 'and': {
+        const right = this.evaluateSource(source.right, pages);
+        return new Set(Array.from(this.evaluateSource(source.left, pages)).filter(file => right.has(file)));
+      }
+      case 'or':
+        return new Set([
+          ...this.evaluateSource(source.left, pages),
+          ...this.evaluateSource(source.right, pages)
+        ]);
+    }
+  }
+
+  private evaluate(expr: Expr, row: Row, byPath: Map<string, Page>): DataviewValue {
+    switch (expr.type) {
+      case 'literal':
+        return expr.value;
+      case 'list':
+        return expr.items.map(item => this.evaluate(item, row, byPath));
+      case 'field':
+        return this.getField(row, expr.name, byPath);
+      case 'member':
+        return this.getField(this.evaluate(expr.object, row, byPath), expr.name, byPath);
+      case 'index': {
+        const object = this.evaluate(expr.object, row, byPath);
+        const index = this.evaluate(expr.index, row, byPath);
+        if (Array.isArray(object) && typeof index === 'number') {
+          return object[index < 0 ? object.length + index : index] ?? null;
+        }
+        return this.getField(object, valueToString(index), byPath);
+      }
+      case 'unary': {
+        const operand = this.evaluate(expr.operand, row, byPath);
+        if (expr.op === '!') return !truthy(operand);
+        if (typeof operand === 'number') return -operand;
+        if (operand instanceof Duration) return new Duration(-operand.ms);
+        return null;
+      }
+      case 'binary':
+        return this.evaluateBinary(expr.op, expr.left, expr.right, row, byPath);
+      case 'call':
+        return this.callFunction(
+          expr.name,
+          expr.args.map(arg => this.evaluate(arg, row, byPath)),
+          byPath
+        );
+    }
+  }
+
+  private evaluateBinary(op: string, leftExpr: Expr, rightExpr: Expr, row: Row, byPath: Map<string, Page>): DataviewValue {
+    if (op === 'and') {
+      return truthy(this.evaluate(leftExpr, row, byPath)) && truthy(this.evaluate(rightExpr, row, byPath));
+    }
+    if (op === 'or') {
+      return truthy(this.evaluate(leftExpr, row, byPath)) || truthy(this.evaluate(rightExpr, row, byPath));
+    }
+
+    const left = this.evaluate(leftExpr, row, byPath);
+    const right = this.evaluate(rightExpr, row, byPath);
+
+    switch (op) {
+      case '=':
+        return compareValues(left, right) === 0;
+      case '!=':
+        return compareValues(left, right) !== 0;
+      case '<':
+        return compareValues(left, right) < 0;
+      case '<=':
+        return compareValues(left, right) <= 0;
+      case '>':
+        return compareValues(left, right) > 0;
+      case '>=':
+        return compareValues(left, right) >= 0;
+    }
+
+    if (left === null || left === undefined || right === null || right === undefined) return null;
+
+    if (op === '+') {
+      if (left instanceof Date && right instanceof Duration) return new Date(left.getTime() + right.ms);
+      if (left instanceof Duration && right instanceof Date) return new Date(right.getTime() + left.ms);
+      if (left instanceof Duration && right instanceof Duration) return new Duration(left.ms + right.ms);
+      if (Array.isArray(left) && Array.isArray(right)) return [...left, ...right];
+      if (typeof left === 'number' && typeof right === 'number') return left + right;
+      return valueToString(left) + valueToString(right);
+    }
+    if (op === '-') {
+      if (left instanceof Date && right instanceof Duration) return new Date(left.getTime() - right.ms);
+      if (left instanceof Date && right instanceof Date) return new Duration(left.getTime() - right.getTime());
+      if (left instanceof Duration && right instanceof Duration) return new Duration(left.ms - right.ms);
+      if (typeof left === 'number' && typeof right === 'number') return left - right;
+      return null;
+    }
+    if (typeof left === 'number' && typeof right === 'number') {
+      if (op === '*') return left * right;
+      if (op === '/') return right === 0 ? null : left / right;
+      if (op === '%') return right === 0 ? null : left % right;
+    }
+    if (op === '*' && left instanceof Duration && typeof right === 'number') return new Duration(left.ms * right);
+    if (op === '/' && left instanceof Duration && typeof right === 'number' && right !== 0) {
+      return new Duration(left.ms / right);
+    }
+    return null;
+  }
+
+  private getField(object: DataviewValue, name: string, byPath: Map<string, Page>): DataviewValue {
+    if (object === null || object === undefined) return null;
+
+    // Field access on a list applies to every element
+    if (Array.isArray(object)) {
+      return object.map(item => this.getField(item, name, byPath));
+    }
+
+    if (object instanceof DataviewLink) {
+      const lower = name.toLowerCase();
+      if (lower === 'path' || lower === 'display' || lower === 'embed' || lower === 'subpath') {
+        return object[lower] ?? null;
+      }
+      const page = byPath.get(object.path);
+      return page ? this.getField(page, name, byPath) : null;
+    }
+
+    if (object instanceof Date) {
+      const parts: Record<string, number> = {
+        year: object.getFullYear(),
+        month: object.getMonth() + 1,
+        day: object.getDate(),
+        hour: object.getHours(),
+        minute: object.getMinutes(),
+        second: object.getSeconds(),
+        millisecond: object.getMilliseconds(),
+        weekday: object.getDay() === 0 ? 7 : object.getDay()
+      };
+      return parts[name.toLowerCase()] ?? null;
+    }
+
+    if (object instanceof Duration) {
+      const sizes: Record<string, number> = {
+        years: 365 * 86400000,
+        months: 30 * 86400000,
+        weeks: 7 * 86400000,
+        days: 86400000,
+        hours: 3600000,
+        minutes: 60000,
+        seconds: 1000,
+        milliseconds: 1
+      };
+      const size = sizes[name.toLowerCase()];
+      return size ? object.ms / size : null;
+    }
+
+    if (typeof object !== 'object') return null;
+    if (Object.prototype.hasOwnProperty.call(object, name)) return object[name] ?? null;
+
+    const sanitized = sanitizeKey(name);
+    for (const key of Object.keys(object)) {
+      if (sanitizeKey(key) === sanitized) return object[key] ?? null;
+    }
+    return null;
+  }
+
+  private callFunction(name: string, args: DataviewValue[], byPath: Map<string, Page>): DataviewValue {
+    const [a, b, c] = args;
+    switch (name) {
+      case 'date': {
+        if (a instanceof Date) return a;
+        if (a instanceof DataviewLink) return byPath.get(a.path)?.file.day ?? null;
+        return typeof a === 'string' ? parseDateKeyword(a) : null;
+      }
+      case 'dur':
+        if (a instanceof Duration) return a;
+        return typeof a === 'string' ? parseDuration(a) : null;
+      case 'link': {
+        if (a instanceof DataviewLink) return b ? new DataviewLink(a.path, String(b), a.embed, a.subpath) : a;
+        if (typeof a !== 'string') return null;
+        const { target, subpath } = splitLinkTarget(a);
+        const resolved = resolveNoteLink(target, '', Array.from(byPath.keys()));
+        return new DataviewLink(resolved || target, b ? String(b) : undefined, false, subpath || undefined);
+      }
+      case 'embed':
+        return a instanceof DataviewLink ? new DataviewLink(a.path, a.display, b !== false, a.subpath) : null;
+      case 'contains':
+        return contains(a, b, 'substring');
+      case 'icontains':
+        return contains(a, b, 'insensitive');
+      case 'econtains':
+        return contains(a, b, 'exact');
+      case 'containsword':
+        return typeof a === 'string' && typeof b === 'string'
+          ? new RegExp(`\\b${b.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i').test(a)
+          : false;
+      case 'length':
+        if (a === null || a === undefined) return 0;
+        if (Array.isArray(a) || typeof a === 'string') return a.length;
+        if (typeof a === 'object') return Object.keys(a).length;
+        return 0;
+      case 'lower':
+        return typeof a === 'string' ? a.toLowerCase() : a;
+      case 'upper':
+        return typeof a === 'string' ? a.toUpperCase() : a;
+      case 'startswith':
+        return typeof a === 'string' && typeof b === 'string' ? a.startsWith(b) : false;
+      case 'endswith':
+        return typeof a === 'string' && typeof b === 'string' ? a.endsWith(b) : false;
+      case 'replace':
+        return typeof a === 'string' ? a.split(valueToString(b)).join(valueToString(c)) : a;
+      case 'regextest':
+        return typeof b === 'string' ? new RegExp(valueToString(a)).test(b) : false;
+      case 'regexmatch':
+        return typeof b === 'string' ? new RegExp(`^(?:${valueToString(a)})$`).test(b) : false;
+      case 'regexreplace':
+        return typeof a === 'string' ? a.replace(new RegExp(valueToString(b), 'g'), valueToString(c)) : a;
+      case 'split':
+        return typeof a === 'string' ? a.split(new RegExp(valueToString(b))) : null;
+      case 'join':
+        return Array.isArray(a) ? a.map(valueToString).join(b === undefined ? ', ' : valueToString(b)) : valueToString(a);
+      case 'string':
+        return valueToString(a);
+      case 'number': {
+        if (typeof a === 'number') return a;
+        const match = typeof a === 'string' ? a.match(/-?\d+(\.\d+)?/) : null;
+        return match ? parseFloat(match[0]) : null;
+      }
+      case 'default':
+        return a === null || a === undefined ? b : a;
+      case 'choice':
+        return truthy(a) ? b : c;
+      case 'typeof':
+        return typeOf(a);
+      case 'round': {
+        if (typeof a !== 'number') return null;
+        const factor = Math.pow(10, typeof b === 'number' ? b : 0);
+        return Math.round(a * factor) / factor;
+      }
+      case 'min':
+      case 'max': {
+        const values = (args.length === 1 && Array.isArray(a) ? a : args).filter(v => v !== null && v !== undefined);
+        if (values.length === 0) return null;
+        return values.reduce((best, v) => {
+          const result = compareValues(v, best);
+          return (name === 'min' ? result < 0 : result > 0) ? v : best;
+        });
+      }
+      case 'sum':
+      case 'average': {
+        const values = (Array.isArray(a) ? a : args).filter((v): v is number => typeof v === 'number');
+        if (values.length === 0) return null;
+        const total = values.reduce((sum, v) => sum + v, 0);
+        return name === 'sum' ? total : total / values.length;
+      }
+      case 'list':
+      case 'array':
+        return args;
+      case 'flat':
+        return Array.isArray(a) ? ([] as DataviewValue[]).concat(...a) : a;
+      case 'reverse':
+        return Array.isArray(a) ? [...a].reverse() : a;
+      case 'sort':
+        return Array.isArray(a) ? [...a].sort(compareValues) : a;
+      case 'unique':
+        return Array.isArray(a)
+          ? a.filter((v, i) => a.findIndex(other => compareValues(other, v) === 0) === i)
+          : a;
+      case 'nonnull':
+        return Array.isArray(a) ? a.filter(v => v !== null && v !== undefined) : a;
+      case 'any':
+        return (Array.isArray(a) && args.length === 1 ? a : args).some(truthy);
+      case 'all':
+        return (Array.isArray(a) && args.length === 1 ? a : args).every(truthy);
+      case 'none':
+        return !(Array.isArray(a) && args.length === 1 ? a : args).some(truthy);
+      case 'striptime':
+        return a instanceof Date ? startOfDay(a) : null;
+      case 'dateformat':
+        return a instanceof Date && typeof b === 'string' ? formatDate(a, b) : null;
+      case 'meta':
+        return a instanceof DataviewLink
+          ? { path: a.path, display: a.display ?? null, embed: a.embed, subpath: a.subpath ?? null, type: 'file' }
+          : null;
+    }
+    throw new Error(`dataview syntax error: unknown or unsupported function "${name}()"`);
+  }
+
+  /**
+   * Read every note into Dataview's page shape: frontmatter, inline fields and implicit file.* fields
+   */
+  private async loadPages(): Promise<Page[]> {
+    const files = (await this.search.getAllMarkdownFiles()).map(file => file.split(path.sep).join('/'));
+    const pages: Page[] = [];
+    const rawLinks = new Map<string, NoteLink[]>();
+
+    for (const file of files) {
+      let content: string;
+      let stats;
+      try {
+        const fullPath = path.join(this.vaultPath, file);
+        [content, stats] = await Promise.all([fs.readFile(fullPath, 'utf-8'), fs.stat(fullPath)]);
+      } catch {
+        continue;
+      }
+
+      const frontmatter = extractFrontmatter(content);
+      const inlineFields = extractInlineFields(content);
+      const tags = extractTags(content)
+        .map(tag => (tag.startsWith('#') ? tag : `#${tag}`));
+      const inlineTags = new Set(tags.filter(tag => content.includes(tag)));
+      const name = path.posix.basename(file, '.md');
+      const ctime = new Date(stats.birthtimeMs || stats.ctimeMs);
+      const mtime = new Date(stats.mtimeMs);
+      const dayMatch = name.match(/\d{4}-\d{2}-\d{2}/);
+      rawLinks.set(file, extractLinks(content));
+
+      const frontmatterFields = this.convertFields(frontmatter, files, file);
+      const tasks = extractTasks(content).map(task => {
+        const taskFields: DataviewObject = {};
+        for (const field of task.fields) {
+          taskFields[field.key] = this.parseInlineValue(field.value, files, file);
+        }
+        return {
+          text: task.text,
+          status: task.status,
+          completed: task.completed,
+          checked: task.status !== ' ',
+          fullyCompleted: task.completed,
+          line: task.line,
+          path: file,
+          link: new DataviewLink(file),
+          tags: (task.text.match(/#[\w\-\/]+/g) || []).filter(tag => inlineTags.has(tag)),
+          ...taskFields
+        };
+      });
+
+      const fileFields: PageFile = {
+        name,
+        path: file,
+        folder: path.posix.dirname(file) === '.' ? '' : path.posix.dirname(file),
+        ext: 'md',
+        link: new DataviewLink(file),
+        size: stats.size,
+        ctime,
+        mtime,
+        cday: startOfDay(ctime),
+        mday: startOfDay(mtime),
+        day: dayMatch ? parseDateString(dayMatch[0]) : null,
+        tags: this.expandTags(tags),
+        etags: tags,
+        inlinks: [],
+        outlinks: [],
+        aliases: this.toList(frontmatterFields.aliases ?? frontmatterFields.alias),
+        frontmatter: frontmatterFields,
+        tasks,
+        starred: false
+      };
+
+      const page: Page = { file: fileFields };
+      for (const [key, value] of Object.entries(fileFields.frontmatter)) {
+        page[key] = value;
+      }
+      for (const field of inlineFields) {
+        const value = this.parseInlineValue(field.value, files, file);
+        // Repeated inline fields collect into a list, as in Dataview
+        if (Object.prototype.hasOwnProperty.call(page, field.key) && field.key !== 'file') {
+          const existing = page[field.key];
+          page[field.key] = Array.isArray(existing) ? [...existing, value] : [existing, value];
+        } else if (field.key !== 'file') {
+          page[field.key] = value;
+        }
+      }
+      pages.push(page);
+    }
+
+    // Resolve links once every page is known, then fill in backlinks
+    const byPath = new Map(pages.map(page => [page.file.path as string, page]));
+    const resolver = new LinkResolver(files);
+    for (const page of pages) {
+      const seen = new Set<string>();
+      for (const link of rawLinks.get(page.file.path) || []) {
+        if (!link.target) continue;
+        const resolved = resolver.resolve(link.target, page.file.path, link.type === 'markdown') || link.target;
+        if (seen.has(resolved)) continue;
+        seen.add(resolved);
+        page.file.outlinks.push(new DataviewLink(resolved, undefined, false, link.subpath));
+        const targetPage = byPath.get(resolved);
+        if (targetPage && targetPage !== page) {
+          targetPage.file.inlinks.push(new DataviewLink(page.file.path));
+        }
+      }
+    }
+
+    return pages;
+  }
+
+  private expandTags(tags: string[]): string[] {
+    const expanded = new Set<string>();
+    for (const tag of tags) {
+      const parts = tag.split('/');
+      for (let i = 1; i <= parts.length; i++) {
+        expanded.add(parts.slice(0, i).join('/'));
+      }
+    }
+    return Array.from(expanded);
+  }
+
+  private toList(value: DataviewValue | undefined): DataviewValue[] {
+    if (value === null || value === undefined || value === '') return [];
+    return Array.isArray(value) ? value : [value];
+  }
+
+  /**
+   * Turn strings that look like dates or [[links]] into Dataview values
+   */
+  private convertValue(value: unknown, files: string[], sourceFile: string): DataviewValue {
+    if (typeof value === 'string') {
+      const link = value.trim().match(/^\[\[([^\]]+)\]\]$/);
+      if (link) {
+        const { target, subpath, alias } = splitLinkTarget(link[1]);
+        return new DataviewLink(
+          resolveNoteLink(target, sourceFile, files) || target,
+          alias.replace(/^\|/, '') || undefined,
+          false,
+          subpath || undefined
+        );
+      }
+      return parseDateString(value.trim()) ?? value;
+    }
+    if (Array.isArray(value)) return value.map(item => this.convertValue(item, files, sourceFile));
+    if (value instanceof Date) return value;
+    if (value && typeof value === 'object') return this.convertFields(value, files, sourceFile);
+    return typeof value === 'number' || typeof value === 'boolean' ? value : null;
+  }
+
+  private convertFields(fields: object, files: string[], sourceFile: string): DataviewObject {
+    const result: DataviewObject = {};
+    for (const [key, entry] of Object.entries(fields)) result[key] = this.convertValue(entry, files, sourceFile);
+    return result;
+  }
+
+  private parseInlineValue(raw: string, files: string[], sourceFile: string): DataviewValue {
+    const value = raw.trim();
+    if (value === '') return null;
+    if (/^".*"$/.test(value)) return value.slice(1, -1);
+    // Inline fields are plain text, unlike frontmatter which is already typed YAML
+    if (/^-?\d+(\.\d+)?$/.test(value)) return parseFloat(value);
+    if (value === 'true' || value === 'false') return value === 'true';
+    return this.convertValue(value, files, sourceFile);
+  }
+}
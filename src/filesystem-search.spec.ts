@@ -0,0 +1,22 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { FilesystemSearch } from './filesystem-search';
+
+test('fuzzy search reports a term matched by both the name and its words once', async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'vault-'));
+  try {
+    await fs.writeFile(path.join(dir, 'Meeting.md'), '# Meeting\n\nmeeting notes\n');
+
+    const [result] = await new FilesystemSearch(dir).fuzzySearch('meet');
+    assert.equal(result.path, 'Meeting.md');
+    assert.deepEqual(
+      result.matchedTerms?.map(match => [match.query, match.term]),
+      [['meet', 'meeting']]
+    );
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
@@ -1,6 +1,16 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { z } from 'zod';
+import { LinkResolver, formatLinkPath } from './link-resolver';
+import { NoteLink, extractAliases, extractFrontmatter, extractLinks, extractTags, normalizeTag, parseFrontmatter } from './note-parser';
+import { IndexStatus, VaultIndex, tokenize } from './vault-index';
+import { QueryNode, matchesQuery, parseSearchQuery, positiveContentTerms } from './search-query';
+import { TermMatch, editDistance, maxEditsFor, trigramSimilarity, wordSimilarity } from './fuzzy-match';
+import { VaultChange } from './vault-watcher';
+import { Community, NoteMetrics, betweenness, detectCommunities, pageRank } from './graph-metrics';
+import { ExportEdge, ExportNode } from './graph-export';
+import { Mention, MentionEdit, findMentions } from './unlinked-mentions';
+import { DEFAULT_VAULT_SETTINGS, VaultSettings, createExcludeFilter } from './vault-settings';
 
 // Schema for filesystem search results
 export const FilesystemSearchResultSchema = z.object({
@@ -11,7 +21,14 @@ export const FilesystemSearchResultSchema = z.object({
     content: z.string(),
     context: z.string().optional()
   })),
-  frontmatter: z.record(z.any()).optional()
+  frontmatter: z.record(z.any()).optional(),
+  frontmatterErrors: z.array(z.string()).optional(),
+  score: z.number().optional(),
+  matchedTerms: z.array(z.object({
+    query: z.string(),
+    term: z.string(),
+    similarity: z.number()
+  })).optional()
 });
 
 export type FilesystemSearchResult = z.infer<typeof FilesystemSearchResultSchema>;
@@ -22,12 +39,90 @@ export const GraphSearchResultSchema = z.object({
   path: z.string(),
   outgoingLinks: z.array(z.string()),
   incomingLinks: z.array(z.string()).optional(),
+  unresolvedLinks: z.array(z.string()).optional(),
   tags: z.array(z.string()),
-  frontmatter: z.record(z.any()).optional()
+  frontmatter: z.record(z.any()).optional(),
+  frontmatterErrors: z.array(z.string()).optional(),
+  metrics: z.object({
+    inDegree: z.number(),
+    outDegree: z.number(),
+    pageRank: z.number(),
+    betweenness: z.number(),
+    community: z.number()
+  }).optional()
 });
 
 export type GraphSearchResult = z.infer<typeof GraphSearchResultSchema>;
 
+export interface ResolvedLink extends NoteLink {
+  resolved: string | null;
+}
+
+/** Which links to follow from a note: links it makes, links to it, or both */
+export type LinkDirection = 'outgoing' | 'incoming' | 'both';
+
+/** The links from one note to another, with where each appears in the source */
+export interface GraphEdge {
+  source: string;
+  target: string;
+  links: Array<{ line: number; column: number; raw: string }>;
+}
+
+export interface LinkPath {
+  /** Notes along the chain, from the start note to the end note */
+  notes: string[];
+  /** One edge per hop; an edge pointing back along the chain was followed as a backlink */
+  edges: GraphEdge[];
+}
+
+export interface Neighborhood {
+  center: string;
+  nodes: Array<{ path: string; distance: number; tags: string[] }>;
+  /** Every link between the notes in the neighbourhood */
+  edges: GraphEdge[];
+}
+
+/** A plain-text mention of a note in another note, with the wikilink it could become */
+export interface UnlinkedMention extends Mention, MentionEdit {
+  source: string;
+  /** The line with this mention linked, trimmed like `context` */
+  preview: string;
+}
+
+export interface NoteSummary {
+  path: string;
+  /** Modification and creation times, ms since epoch */
+  mtime: number;
+  ctime: number;
+  tags: string[];
+}
+
+export type BrokenLinkKind = 'note' | 'embed' | 'heading' | 'block';
+
+/** A missing link target and every place that links to it */
+export interface BrokenLinkGroup {
+  /** The target as linked, e.g. "Missing note" or "Project#Goals" */
+  target: string;
+  kind: BrokenLinkKind;
+  /** The existing note a missing heading or block was looked up in */
+  note?: string;
+  references: Array<{
+    source: string;
+    line: number;
+    column: number;
+    raw: string;
+    type: NoteLink['type'];
+  }>;
+  /** Closest existing notes, headings or blocks, best first */
+  suggestions: Array<{ target: string; path: string; similarity: number }>;
+}
+
+interface BrokenLinkOptions {
+  /** Only report links from notes under this folder */
+  pathPrefix?: string;
+  maxSuggestions?: number;
+}
+
 interface SearchOptions {
   vaultPath: string;
   query: string;
@@ -42,19 +137,78 @@ interface GraphSearchOptions {
   maxDepth?: number;
   startFile?: string;
   includeOrphans?: boolean;
+  /** Add centrality metrics and a community id to each note */
+  includeMetrics?: boolean;
 }
 
+export type GraphMetricName = 'inDegree' | 'outDegree' | 'pageRank' | 'betweenness';
+
+/** Hub and bridge notes, and the topic clusters of the vault */
+export interface GraphSummary {
+  top: Record<GraphMetricName, Array<{ path: string; value: number }>>;
+  communities: Community[];
+}
+
+// Minimum 0..1 similarity for a fuzzy match
+const FUZZY_THRESHOLD = 0.6;
+
+// Looser bound for "did you mean" suggestions
+const SUGGESTION_THRESHOLD = 0.4;
+
+// Share of a note's fuzzy score that a content match alone can reach, relative to a name match
+const CONTENT_MATCH_WEIGHT = 0.95;
+
 export class FilesystemSearch {
   private vaultPath: string;
+  /** Resolved notes each note links to, and the notes linking to each note */
   private linkCache: Map<string, Set<string>> = new Map();
   private backlinksCache: Map<string, Set<string>> = new Map();
+  private unresolvedCache: Map<string, Set<string>> = new Map();
+  private resolvedLinks: Map<string, ResolvedLink[]> = new Map();
+  private resolver: LinkResolver = new LinkResolver([]);
+  private graphRevision = -1;
+  private metricsCache: { revision: number; metrics: Map<string, NoteMetrics> } | null = null;
+  private index: VaultIndex;
+  private settings: VaultSettings;
+  /** The vault's "Excluded files", left out of the index and so of every search and graph */
+  private isExcluded: (relativePath: string) => boolean;
 
-  constructor(vaultPath: string) {
+  constructor(vaultPath: string, settings: VaultSettings = DEFAULT_VAULT_SETTINGS) {
     this.vaultPath = vaultPath;
+    this.index = new VaultIndex(vaultPath);
+    this.settings = settings;
+    this.isExcluded = createExcludeFilter(settings.userIgnoreFilters);
+  }
+
+  /**
+   * Bring the persistent index up to date with the vault
+   */
+  async refreshIndex(force: boolean = false): Promise<IndexStatus> {
+    return this.index.refresh(() => this.getAllMarkdownFiles(), force);
+  }
+
+  /**
+   * Make the next search re-check the vault, e.g. after a write through this server
+   */
+  markIndexStale(): void {
+    this.index.markStale();
+  }
+
+  /**
+   * Tell the index that a watcher keeps it current, so searches skip re-walking the vault
+   */
+  setLiveUpdates(enabled: boolean): void {
+    this.index.setLiveUpdates(enabled);
+  }
+
+  getIndexStatus(): IndexStatus {
+    return this.index.getStatus();
   }
 
   /**
-   * Main search function that searches through markdown files
+   * Main search function that searches through markdown files.
+   * Content searches accept the query syntax of search-query.ts, and matches are
+   * ranked by BM25 relevance before `maxResults` is applied.
    */
   async search(options: SearchOptions): Promise<FilesystemSearchResult[]> {
     const {
@@ -66,10 +220,15 @@ export class FilesystemSearch {
     } = options;
 
     const results: FilesystemSearchResult[] = [];
-    const files = await this.getAllMarkdownFiles();
+    // Content results are ranked afterwards, so every match has to be collected first
+    const ranked = searchType === 'content';
+    const parsedQuery = ranked ? parseSearchQuery(query) : null;
+
+    await this.refreshIndex();
+    const files = this.filterWithIndex(query, searchType, parsedQuery);
 
     for (const file of files) {
-      if (results.length >= maxResults) break;
+      if (!ranked && results.length >= maxResults) break;
 
       const fullPath = path.join(this.vaultPath, file);
       
@@ -81,7 +240,8 @@ export class FilesystemSearch {
           query,
           searchType,
           contextLines,
-          includeContent
+          includeContent,
+          parsedQuery
         );
 
         if (result) {
@@ -93,137 +253,422 @@ export class FilesystemSearch {
       }
     }
 
-    return results;
+    if (!ranked) return results;
+
+    const scores = this.index.score(
+      positiveContentTerms(parsedQuery!).join(' '),
+      results.map(result => result.path)
+    );
+    return results
+      .map(result => ({ ...result, score: roundScore(scores.get(result.path) || 0) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, maxResults);
+  }
+
+  /**
+   * BM25 relevance of vault files for a query, on the same scale as ranked search results.
+   * Paths may use forward slashes, as the Local REST API returns them.
+   */
+  async scoreFiles(query: string, files: string[]): Promise<Map<string, number>> {
+    await this.refreshIndex();
+    const localPaths = files.map(file => file.split('/').join(path.sep));
+    const scores = this.index.score(query, localPaths);
+    return new Map(files.map((file, i) => [file, roundScore(scores.get(localPaths[i]) || 0)]));
   }
 
   /**
    * Graph search - analyze links and connections between notes
    */
   async graphSearch(options: GraphSearchOptions): Promise<GraphSearchResult[]> {
-    const { maxDepth = 2, startFile, includeOrphans = false } = options;
+    const { maxDepth = 2, startFile, includeOrphans = false, includeMetrics = false } = options;
 
     // Build the link graph
     await this.buildLinkGraph();
+    const metrics = includeMetrics ? this.computeMetrics() : null;
+    // Accept the start note the way it would be linked, e.g. without folder or extension
+    const startNote = startFile ? this.resolver.resolve(startFile, '') || startFile : undefined;
+    // One walk from the start note, rather than one from every note towards it
+    const connected = startNote ? this.distancesFrom(startNote, maxDepth, 'both') : null;
 
     const results: GraphSearchResult[] = [];
-    const files = await this.getAllMarkdownFiles();
+    const files = this.index.getFiles();
 
     for (const file of files) {
-      const fullPath = path.join(this.vaultPath, file);
-      
-      try {
-        const content = await fs.readFile(fullPath, 'utf-8');
-        const frontmatter = this.extractFrontmatter(content);
-        const tags = this.extractTags(content);
-        const outgoingLinks = Array.from(this.linkCache.get(file) || []);
-        const incomingLinks = Array.from(this.backlinksCache.get(file) || []);
+      const note = this.index.getNote(file);
+      if (!note) continue;
 
-        // Filter based on criteria
-        if (startFile && !this.isConnected(file, startFile, maxDepth)) {
-          continue;
-        }
+      const outgoingLinks = Array.from(this.linkCache.get(file) || []);
+      const incomingLinks = Array.from(this.backlinksCache.get(file) || []);
+      const unresolvedLinks = Array.from(this.unresolvedCache.get(file) || []);
 
-        if (!includeOrphans && outgoingLinks.length === 0 && incomingLinks.length === 0) {
-          continue;
-        }
+      // Filter based on criteria
+      if (connected && !connected.has(file)) {
+        continue;
+      }
 
-        results.push({
-          filename: path.basename(file),
-          path: file,
-          outgoingLinks,
-          incomingLinks,
-          tags,
-          frontmatter
-        });
-      } catch (error) {
+      if (!includeOrphans && outgoingLinks.length === 0 && incomingLinks.length === 0) {
         continue;
       }
+
+      results.push({
+        filename: path.basename(file),
+        path: file,
+        outgoingLinks,
+        incomingLinks,
+        ...(unresolvedLinks.length > 0 && { unresolvedLinks }),
+        tags: note.tags,
+        frontmatter: note.frontmatter,
+        ...(note.frontmatterErrors && { frontmatterErrors: note.frontmatterErrors }),
+        ...(metrics && { metrics: metrics.get(file) })
+      });
     }
 
     return results;
   }
 
   /**
-   * Fuzzy search - find notes by approximate matching
+   * The notes and links to export: the neighbourhood of `startFile` when given,
+   * otherwise every linked note (and unlinked ones with `includeOrphans`)
    */
-  async fuzzySearch(query: string, maxResults: number = 10): Promise<FilesystemSearchResult[]> {
-    const results: FilesystemSearchResult[] = [];
-    const files = await this.getAllMarkdownFiles();
-    const queryLower = query.toLowerCase();
-    const queryParts = queryLower.split(/\s+/);
+  async getExportGraph(options: {
+    startFile?: string;
+    depth?: number;
+    direction?: LinkDirection;
+    includeOrphans?: boolean;
+  }): Promise<{ nodes: ExportNode[]; edges: ExportEdge[] }> {
+    const { startFile, depth = 1, direction = 'both', includeOrphans = false } = options;
 
-    const scored: Array<{ file: string; score: number; result: FilesystemSearchResult }> = [];
+    if (startFile) {
+      const neighborhood = await this.getNeighborhood(startFile, depth, direction);
+      return {
+        nodes: neighborhood.nodes.map(node => ({ path: node.path, tags: node.tags })),
+        edges: neighborhood.edges.map(edge => ({ source: edge.source, target: edge.target, weight: edge.links.length }))
+      };
+    }
 
-    for (const file of files) {
-      const fullPath = path.join(this.vaultPath, file);
-      const filename = path.basename(file).toLowerCase();
-      
-      // Calculate filename score
-      let score = 0;
-      
-      // Exact filename match (without extension)
-      if (filename.replace('.md', '') === queryLower) {
-        score += 100;
+    const results = await this.graphSearch({ vaultPath: this.vaultPath, includeOrphans });
+    const edges: ExportEdge[] = [];
+    for (const result of results) {
+      for (const target of result.outgoingLinks) {
+        const edge = this.edge(result.path, target);
+        edges.push({ source: edge.source, target: edge.target, weight: edge.links.length });
       }
-      
-      // Filename contains query
-      if (filename.includes(queryLower)) {
-        score += 50;
-      }
-      
-      // All query parts in filename
-      if (queryParts.every(part => filename.includes(part))) {
-        score += 30;
+    }
+    return { nodes: results.map(result => ({ path: result.path, tags: result.tags })), edges };
+  }
+
+  /**
+   * The top `topN` notes by each centrality metric, and every community of two or more
+   * notes with its members and most common tags
+   */
+  async getGraphSummary(topN: number = 10): Promise<GraphSummary> {
+    await this.buildLinkGraph();
+    const metrics = this.computeMetrics();
+
+    const rank = (name: GraphMetricName) =>
+      Array.from(metrics, ([path, values]) => ({ path, value: values[name] }))
+        .filter(entry => entry.value > 0)
+        .sort((a, b) => b.value - a.value || a.path.localeCompare(b.path))
+        .slice(0, topN);
+
+    const members = new Map<number, string[]>();
+    for (const [file, values] of metrics) {
+      const community = members.get(values.community);
+      if (community) {
+        community.push(file);
+      } else {
+        members.set(values.community, [file]);
       }
+    }
 
-      try {
-        const content = await fs.readFile(fullPath, 'utf-8');
-        const contentLower = content.toLowerCase();
-        
-        // Content scoring
-        if (contentLower.includes(queryLower)) {
-          score += 20;
+    const communities: Community[] = [];
+    for (const [id, files] of members) {
+      if (files.length < 2) continue;
+      const tagCounts = new Map<string, number>();
+      for (const file of files) {
+        for (const tag of new Set((this.index.getNote(file)?.tags || []).map(normalizeTag))) {
+          tagCounts.set(tag, (tagCounts.get(tag) || 0) + 1);
         }
-        
-        // All query parts in content
-        if (queryParts.every(part => contentLower.includes(part))) {
-          score += 10;
+      }
+      const dominantTags = Array.from(tagCounts, ([tag, count]) => ({ tag, count }))
+        .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+        .slice(0, 5);
+      // Members ordered by PageRank, so the cluster's hub notes come first
+      files.sort((a, b) => metrics.get(b)!.pageRank - metrics.get(a)!.pageRank || a.localeCompare(b));
+      communities.push({ id, size: files.length, members: files, dominantTags });
+    }
+    communities.sort((a, b) => a.id - b.id);
+
+    return {
+      top: {
+        inDegree: rank('inDegree'),
+        outDegree: rank('outDegree'),
+        pageRank: rank('pageRank'),
+        betweenness: rank('betweenness')
+      },
+      communities
+    };
+  }
+
+  /**
+   * Centrality metrics and communities for every note, computed once per graph revision
+   */
+  private computeMetrics(): Map<string, NoteMetrics> {
+    if (this.metricsCache && this.metricsCache.revision === this.graphRevision) {
+      return this.metricsCache.metrics;
+    }
+
+    const files = this.index.getFiles();
+    const undirected = new Map<string, Set<string>>();
+    for (const file of files) {
+      undirected.set(file, new Set([...(this.linkCache.get(file) || []), ...(this.backlinksCache.get(file) || [])]));
+    }
+
+    const ranks = pageRank(files, this.linkCache);
+    const bridging = betweenness(files, undirected);
+    const communities = detectCommunities(files, undirected);
+
+    const metrics = new Map<string, NoteMetrics>();
+    for (const file of files) {
+      metrics.set(file, {
+        inDegree: this.backlinksCache.get(file)?.size || 0,
+        outDegree: this.linkCache.get(file)?.size || 0,
+        pageRank: roundScore(ranks.get(file) || 0),
+        betweenness: roundScore(bridging.get(file) || 0),
+        community: communities.get(file)!
+      });
+    }
+    this.metricsCache = { revision: this.graphRevision, metrics };
+    return metrics;
+  }
+
+  /**
+   * Shortest chain of links between two notes, or null if they are not connected
+   * within `maxDepth` hops. Notes may be named the way they would be linked.
+   */
+  async findLinkPath(from: string, to: string, direction: LinkDirection = 'both', maxDepth: number = 6): Promise<LinkPath | null> {
+    await this.buildLinkGraph();
+    const start = this.resolveNote(from);
+    const end = this.resolveNote(to);
+
+    const previous = new Map<string, string | null>([[start, null]]);
+    let frontier = [start];
+    for (let depth = 0; depth < maxDepth && !previous.has(end) && frontier.length > 0; depth++) {
+      const next: string[] = [];
+      for (const file of frontier) {
+        for (const neighbor of this.neighbors(file, direction)) {
+          if (previous.has(neighbor)) continue;
+          previous.set(neighbor, file);
+          next.push(neighbor);
         }
+      }
+      frontier = next;
+    }
+    if (!previous.has(end)) return null;
 
-        if (score > 0) {
-          const matches = [];
-          const lines = content.split('\n');
-          
-          for (let i = 0; i < lines.length; i++) {
-            if (lines[i].toLowerCase().includes(queryLower)) {
-              matches.push({
-                line: i + 1,
-                content: lines[i],
-                context: lines.slice(Math.max(0, i - 1), Math.min(lines.length, i + 2)).join('\n')
-              });
-              if (matches.length >= 3) break;
-            }
-          }
+    const notes: string[] = [];
+    for (let file: string | null = end; file !== null; file = previous.get(file)!) {
+      notes.unshift(file);
+    }
+    const edges = notes.slice(1).map((file, i) => {
+      const prior = notes[i];
+      // Prefer the forward link when notes link both ways
+      return this.linkCache.get(prior)?.has(file) ? this.edge(prior, file) : this.edge(file, prior);
+    });
+    return { notes, edges };
+  }
 
-          scored.push({
-            file,
-            score,
-            result: {
-              filename: path.basename(file),
-              path: file,
-              matches,
-              frontmatter: this.extractFrontmatter(content)
-            }
-          });
+  /**
+   * The notes within `depth` hops of a note and the links between them
+   */
+  async getNeighborhood(file: string, depth: number = 1, direction: LinkDirection = 'both'): Promise<Neighborhood> {
+    await this.buildLinkGraph();
+    const center = this.resolveNote(file);
+    const distances = this.distancesFrom(center, depth, direction);
+
+    const edges: GraphEdge[] = [];
+    for (const source of distances.keys()) {
+      for (const target of this.linkCache.get(source) || []) {
+        if (distances.has(target)) edges.push(this.edge(source, target));
+      }
+    }
+
+    return {
+      center,
+      nodes: Array.from(distances, ([path, distance]) => ({ path, distance, tags: this.index.getNote(path)?.tags || [] })),
+      edges
+    };
+  }
+
+  /**
+   * Fuzzy search - find notes by approximate matching of query words against the words
+   * and file names in the vault, tolerating typos. Each result carries a 0..1 similarity
+   * score and the vault terms its query words were matched to.
+   */
+  async fuzzySearch(query: string, maxResults: number = 10): Promise<FilesystemSearchResult[]> {
+    await this.refreshIndex();
+    const files = this.index.getFiles();
+    const queryLower = query.toLowerCase().trim();
+    const queryTokens = Array.from(new Set(tokenize(query)));
+    if (queryTokens.length === 0) return [];
+
+    // Best content match per query word for every note containing a similar word
+    const contentMatches = new Map<string, Array<TermMatch | null>>();
+    queryTokens.forEach((token, i) => {
+      for (const match of this.matchVocabulary(token)) {
+        for (const file of this.index.getPostings(match.term)) {
+          let best = contentMatches.get(file);
+          if (!best) {
+            best = queryTokens.map(() => null);
+            contentMatches.set(file, best);
+          }
+          if (!best[i] || best[i]!.similarity < match.similarity) best[i] = match;
         }
+      }
+    });
+
+    const scored: Array<{ file: string; score: number; matchedTerms: TermMatch[] }> = [];
+    for (const file of files) {
+      const name = path.basename(file, '.md').toLowerCase();
+      const nameMatch = matchName(queryLower, queryTokens, name);
+      const contentBest = contentMatches.get(file) || [];
+      const contentSimilarity =
+        contentBest.reduce((sum, match) => sum + (match ? match.similarity : 0), 0) / queryTokens.length;
+
+      // Name matches count slightly more than the same match in the text
+      const score = Math.min(
+        1,
+        Math.max(nameMatch.similarity, CONTENT_MATCH_WEIGHT * contentSimilarity) +
+          (1 - CONTENT_MATCH_WEIGHT) * Math.min(nameMatch.similarity, contentSimilarity)
+      );
+      if (score < FUZZY_THRESHOLD) continue;
+
+      const perWord = queryTokens
+        .map((_, i) => {
+          const fromName = nameMatch.terms[i];
+          const fromContent = contentBest[i];
+          if (!fromContent) return fromName;
+          if (!fromName) return fromContent;
+          return fromName.similarity >= fromContent.similarity ? fromName : fromContent;
+        })
+        .filter((match): match is TermMatch => !!match);
+      // A one-word query can match the whole name and the same word in it; report it once
+      const matchedTerms = uniqueMatches(nameMatch.whole ? [nameMatch.whole, ...perWord] : perWord);
+
+      scored.push({ file, score, matchedTerms });
+    }
+
+    // Sort by score, breaking ties by how relevant the matched words are to each note,
+    // and read only the notes that are returned
+    const relevance = (item: { file: string; matchedTerms: TermMatch[] }) =>
+      this.index.score(item.matchedTerms.map(match => match.term).join(' '), [item.file]).get(item.file) || 0;
+    const ranked = scored.map(item => ({ ...item, relevance: relevance(item) }));
+    ranked.sort((a, b) => b.score - a.score || b.relevance - a.relevance);
+    const results: FilesystemSearchResult[] = [];
+    for (const { file, score, matchedTerms } of ranked.slice(0, maxResults)) {
+      let lines: string[] = [];
+      try {
+        lines = (await fs.readFile(path.join(this.vaultPath, file), 'utf-8')).split('\n');
       } catch (error) {
         continue;
       }
+
+      const terms = matchedTerms.map(match => match.term.toLowerCase());
+      const matches = [];
+      for (let i = 0; i < lines.length; i++) {
+        const lineLower = lines[i].toLowerCase();
+        if (terms.some(term => lineLower.includes(term))) {
+          matches.push({
+            line: i + 1,
+            content: lines[i],
+            context: lines.slice(Math.max(0, i - 1), Math.min(lines.length, i + 2)).join('\n')
+          });
+          if (matches.length >= 3) break;
+        }
+      }
+
+      const note = this.index.getNote(file);
+      results.push({
+        filename: path.basename(file),
+        path: file,
+        matches,
+        frontmatter: note?.frontmatter,
+        ...(note?.frontmatterErrors && { frontmatterErrors: note.frontmatterErrors }),
+        score: roundScore(score),
+        matchedTerms
+      });
     }
 
-    // Sort by score and return top results
-    scored.sort((a, b) => b.score - a.score);
-    return scored.slice(0, maxResults).map(item => item.result);
+    return results;
+  }
+
+  /**
+   * Closest vault words and note names for a query that found nothing, most similar first
+   */
+  async didYouMean(query: string, limit: number = 5): Promise<string[]> {
+    await this.refreshIndex();
+    const queryTokens = Array.from(new Set(tokenize(query)));
+    const suggestions: Array<{ text: string; similarity: number }> = [];
+
+    // The query with every word replaced by its closest vault word
+    const corrected = queryTokens.map(token => this.closestTerm(token));
+    if (corrected.every(match => match !== null)) {
+      const text = corrected.map(match => match!.term).join(' ');
+      const similarity = corrected.reduce((sum, match) => sum + match!.similarity, 0) / corrected.length;
+      if (text !== queryTokens.join(' ')) suggestions.push({ text, similarity });
+    }
+
+    const queryLower = query.toLowerCase().trim();
+    for (const file of this.index.getFiles()) {
+      const name = path.basename(file, '.md');
+      const similarity = trigramSimilarity(queryLower, name.toLowerCase());
+      if (similarity >= SUGGESTION_THRESHOLD) suggestions.push({ text: name, similarity });
+    }
+
+    const seen = new Set<string>();
+    return suggestions
+      .sort((a, b) => b.similarity - a.similarity)
+      .filter(suggestion => {
+        const key = suggestion.text.toLowerCase();
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .slice(0, limit)
+      .map(suggestion => suggestion.text);
+  }
+
+  /**
+   * Vault words within the typo allowance of a query word
+   */
+  private matchVocabulary(token: string): TermMatch[] {
+    const maxEdits = maxEditsFor(token.length);
+    const matches: TermMatch[] = [];
+    for (const term of this.index.getVocabulary()) {
+      if (Math.abs(term.length - token.length) > maxEdits && !term.startsWith(token)) continue;
+      const similarity = wordSimilarity(token, term);
+      if (similarity >= FUZZY_THRESHOLD) {
+        matches.push({ query: token, term, similarity: roundScore(similarity) });
+      }
+    }
+    return matches;
+  }
+
+  /**
+   * The most similar vault word regardless of the typo allowance, if any is reasonably close
+   */
+  private closestTerm(token: string): TermMatch | null {
+    const maxDistance = Math.max(2, Math.ceil(token.length * 0.7));
+    let best: TermMatch | null = null;
+    for (const term of this.index.getVocabulary()) {
+      const distance = editDistance(token, term, maxDistance);
+      if (distance > maxDistance) continue;
+      const similarity = 1 - distance / Math.max(token.length, term.length);
+      if (similarity >= SUGGESTION_THRESHOLD && (!best || similarity > best.similarity)) {
+        best = { query: token, term, similarity: roundScore(similarity) };
+      }
+    }
+    return best;
   }
 
   /**
@@ -235,10 +680,13 @@ export class FilesystemSearch {
     query: string,
     searchType: string,
     contextLines: number,
-    includeContent: boolean
+    includeContent: boolean,
+    parsedQuery: QueryNode | null = null
   ): Promise<FilesystemSearchResult | null> {
     const filename = path.basename(filePath);
     const queryLower = query.toLowerCase();
+    // Lines are highlighted for the words that made a content query match
+    let highlight = [queryLower];
 
     // Check based on search type
     switch (searchType) {
@@ -249,21 +697,21 @@ export class FilesystemSearch {
         break;
 
       case 'tags':
-        const tags = this.extractTags(content);
+        const tags = extractTags(content);
         if (!tags.some(tag => tag.toLowerCase().includes(queryLower))) {
           return null;
         }
         break;
 
       case 'links':
-        const links = this.extractLinks(content);
-        if (!links.some(link => link.toLowerCase().includes(queryLower))) {
+        const links = extractLinks(content);
+        if (!links.some(link => linkMatches(link, queryLower))) {
           return null;
         }
         break;
 
       case 'frontmatter':
-        const frontmatter = this.extractFrontmatter(content);
+        const frontmatter = extractFrontmatter(content);
         const frontmatterStr = JSON.stringify(frontmatter).toLowerCase();
         if (!frontmatterStr.includes(queryLower)) {
           return null;
@@ -271,11 +719,21 @@ export class FilesystemSearch {
         break;
 
       case 'content':
-      default:
-        if (!content.toLowerCase().includes(queryLower)) {
+      default: {
+        const queryTree = parsedQuery || parseSearchQuery(query);
+        const note = this.index.getNote(filePath);
+        const matched = matchesQuery(queryTree, {
+          path: filePath,
+          content,
+          tags: note ? note.tags : extractTags(content),
+          frontmatter: note ? note.frontmatter : extractFrontmatter(content)
+        });
+        if (!matched) {
           return null;
         }
+        highlight = positiveContentTerms(queryTree).map(term => term.toLowerCase());
         break;
+      }
     }
 
     // Build matches if content search
@@ -283,7 +741,8 @@ export class FilesystemSearch {
     if (includeContent && (searchType === 'content' || searchType === 'filename')) {
       const lines = content.split('\n');
       for (let i = 0; i < lines.length; i++) {
-        if (lines[i].toLowerCase().includes(queryLower)) {
+        const lineLower = lines[i].toLowerCase();
+        if (highlight.some(term => lineLower.includes(term))) {
           const startLine = Math.max(0, i - contextLines);
           const endLine = Math.min(lines.length - 1, i + contextLines);
           const contextArray = lines.slice(startLine, endLine + 1);
@@ -297,19 +756,347 @@ export class FilesystemSearch {
       }
     }
 
+    const frontmatter = parseFrontmatter(content);
     return {
       filename,
       path: filePath,
       matches,
-      frontmatter: this.extractFrontmatter(content)
+      frontmatter: frontmatter.data,
+      ...(frontmatter.errors.length > 0 && { frontmatterErrors: frontmatter.errors })
+    };
+  }
+
+  /**
+   * Narrow the indexed files to those that can match a query, keeping vault order.
+   * Content and filename matches are confirmed against the file afterwards.
+   */
+  private filterWithIndex(query: string, searchType: string, parsedQuery: QueryNode | null): string[] {
+    const files = this.index.getFiles();
+    const queryLower = query.toLowerCase();
+
+    switch (searchType) {
+      case 'filename':
+        return files.filter(file => path.basename(file).toLowerCase().includes(queryLower));
+
+      case 'tags':
+        return files.filter(file =>
+          (this.index.getNote(file)?.tags || []).some(tag => tag.toLowerCase().includes(queryLower))
+        );
+
+      case 'links':
+        return files.filter(file =>
+          (this.index.getNote(file)?.links || []).some(link => linkMatches(link, queryLower))
+        );
+
+      case 'frontmatter':
+        return files.filter(file =>
+          JSON.stringify(this.index.getNote(file)?.frontmatter || {}).toLowerCase().includes(queryLower)
+        );
+
+      case 'content':
+      default: {
+        const candidates = this.queryCandidates(parsedQuery || parseSearchQuery(query));
+        return candidates ? files.filter(file => candidates.has(file)) : files;
+      }
+    }
+  }
+
+  /**
+   * Files that can match a parsed query according to the index, or null when the
+   * query cannot be narrowed (e.g. it is a negation)
+   */
+  private queryCandidates(node: QueryNode): Set<string> | null {
+    // Qualified terms and properties are checked against indexed metadata by the evaluator itself
+    const matchingMetadata = () =>
+      new Set(this.index.getFiles().filter(file => {
+        const note = this.index.getNote(file);
+        return !!note && matchesQuery(node, { path: file, content: '', tags: note.tags, frontmatter: note.frontmatter });
+      }));
+
+    switch (node.type) {
+      case 'term':
+        return node.field === 'content' ? this.index.findCandidates(node.value) : matchingMetadata();
+      case 'property':
+        return matchingMetadata();
+      case 'and': {
+        let result: Set<string> | null = null;
+        for (const child of node.children) {
+          const candidates = this.queryCandidates(child);
+          if (!candidates) continue;
+          result = result === null
+            ? candidates
+            : new Set<string>(Array.from<string>(result).filter(file => candidates.has(file)));
+        }
+        return result;
+      }
+      case 'or': {
+        const result = new Set<string>();
+        for (const child of node.children) {
+          const candidates = this.queryCandidates(child);
+          if (!candidates) return null;
+          candidates.forEach(file => result.add(file));
+        }
+        return result;
+      }
+      case 'line':
+      case 'section':
+        return this.queryCandidates(node.child);
+      case 'not':
+        return null;
+    }
+  }
+
+  /**
+   * Notes under `folder` (the whole vault when empty) modified within a time range, newest first
+   */
+  async getNotesModifiedBetween(start: Date, end: Date, folder: string = ''): Promise<NoteSummary[]> {
+    await this.refreshIndex();
+    const prefix = folder.replace(/\\/g, '/').replace(/^\/+|\/+$/g, '').toLowerCase();
+
+    const notes: NoteSummary[] = [];
+    for (const file of this.index.getFiles()) {
+      const posix = file.split(path.sep).join('/');
+      if (prefix && !posix.toLowerCase().startsWith(prefix + '/')) continue;
+      const note = this.index.getNote(file);
+      if (!note || note.mtime < start.getTime() || note.mtime > end.getTime()) continue;
+      notes.push({ path: file, mtime: note.mtime, ctime: note.ctime, tags: note.tags });
+    }
+    return notes.sort((a, b) => b.mtime - a.mtime);
+  }
+
+  /**
+   * Notes likely related to a note: linked either way or through one other note, sharing
+   * tags, or similar in wording to its title and headings. Best first, with the reasons.
+   */
+  async findRelatedNotes(name: string, limit: number = 10): Promise<{ note: string; related: Array<{ path: string; score: number; reasons: string[] }> }> {
+    await this.buildLinkGraph();
+    const note = this.resolveNote(name);
+    const indexed = this.index.getNote(note);
+    const candidates = new Map<string, { score: number; reasons: string[] }>();
+    const add = (file: string, score: number, reason: string) => {
+      if (file === note) return;
+      const entry = candidates.get(file) || { score: 0, reasons: [] };
+      entry.score += score;
+      entry.reasons.push(reason);
+      candidates.set(file, entry);
     };
+
+    for (const file of this.linkCache.get(note) || []) add(file, 3, 'linked from this note');
+    for (const file of this.backlinksCache.get(note) || []) add(file, 3, 'links to this note');
+    const direct = this.neighbors(note, 'both');
+    const twoHop = new Set<string>();
+    for (const neighbor of direct) {
+      for (const file of this.neighbors(neighbor, 'both')) {
+        if (!direct.has(file)) twoHop.add(file);
+      }
+    }
+    for (const file of twoHop) add(file, 1, 'two links away');
+
+    const tags = new Set((indexed?.tags || []).map(normalizeTag));
+    if (tags.size > 0) {
+      for (const file of this.index.getFiles()) {
+        const shared = Array.from(new Set((this.index.getNote(file)?.tags || []).map(normalizeTag))).filter(tag => tags.has(tag));
+        if (shared.length > 0) add(file, shared.length, `shares ${shared.join(', ')}`);
+      }
+    }
+
+    // Wording: the note's title and headings as a query, scaled so the best match adds 2
+    const query = [path.basename(note, '.md'), ...(indexed?.headings || [])].join(' ');
+    const scores = this.index.score(query, this.index.getFiles().filter(file => file !== note));
+    const best = Math.max(0, ...scores.values());
+    if (best > 0) {
+      const ranked = Array.from(scores).filter(([, score]) => score > 0).sort((a, b) => b[1] - a[1]).slice(0, limit * 2);
+      for (const [file, score] of ranked) add(file, (2 * score) / best, 'similar wording');
+    }
+
+    const related = Array.from(candidates, ([file, entry]) => ({ path: file, score: roundScore(entry.score), reasons: entry.reasons }))
+      .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path))
+      .slice(0, limit);
+    return { note, related };
+  }
+
+  /**
+   * Plain-text mentions of a note's name or aliases in notes that do not link to it yet
+   */
+  async findUnlinkedMentions(name: string): Promise<{ note: string; names: string[]; mentions: UnlinkedMention[] }> {
+    await this.buildLinkGraph();
+    const note = this.resolveNote(name);
+    const title = path.basename(note, '.md');
+    const names = [title, ...extractAliases(this.index.getNote(note)?.frontmatter || {})];
+
+    const candidates = new Set<string>();
+    for (const candidate of names) {
+      this.index.findCandidates(candidate).forEach(file => candidates.add(file));
+    }
+    const linking = this.backlinksCache.get(note) || new Set();
+
+    const mentions: UnlinkedMention[] = [];
+    for (const file of this.index.getFiles()) {
+      if (file === note || linking.has(file) || !candidates.has(file)) continue;
+      let content: string;
+      try {
+        content = await fs.readFile(path.join(this.vaultPath, file), 'utf-8');
+      } catch {
+        continue;
+      }
+
+      const lines = content.split(/\r?\n/);
+      for (const mention of findMentions(content, names)) {
+        const replacement = this.newLink(file, note, mention.text);
+        const line = lines[mention.line - 1];
+        const preview = line.slice(0, mention.column - 1) + replacement + line.slice(mention.column - 1 + mention.text.length);
+        mentions.push({ source: file, ...mention, replacement, preview: preview.trim() });
+      }
+    }
+
+    return { note, names, mentions };
+  }
+
+  /**
+   * A new link from `source` to `note` showing `text`, in the vault's link style and format
+   */
+  private newLink(source: string, note: string, text: string): string {
+    const { newLinkFormat, useMarkdownLinks } = this.settings;
+    const files = this.index.getFiles();
+    if (useMarkdownLinks) {
+      const destination = encodeURI(formatLinkPath(newLinkFormat, source, note, files))
+        .replace(/\(/g, '%28')
+        .replace(/\)/g, '%29');
+      return `[${text}](${destination})`;
+    }
+
+    // The shortest format links by name when that resolves to this note from the source, else by path
+    const title = path.basename(note, '.md');
+    const target =
+      newLinkFormat !== 'shortest'
+        ? formatLinkPath(newLinkFormat, source, note, files).replace(/\.md$/, '')
+        : this.resolver.resolve(title, source) === note
+        ? title
+        : note.split(path.sep).join('/').replace(/\.md$/, '');
+    return text === target ? `[[${target}]]` : `[[${target}|${text}]]`;
+  }
+
+  /**
+   * Every link that points at a missing note, attachment, heading or block, grouped by
+   * target, with the closest existing targets as suggestions
+   */
+  async findBrokenLinks(options: BrokenLinkOptions = {}): Promise<BrokenLinkGroup[]> {
+    const { pathPrefix, maxSuggestions = 3 } = options;
+    await this.buildLinkGraph();
+
+    // Embeds of images, PDFs and other attachments are only broken if the file is missing too,
+    // and links to excluded notes still work in Obsidian
+    const attachments = new LinkResolver(
+      await this.getAllVaultFiles((name, file) => !name.endsWith('.md') || this.isExcluded(file), true)
+    );
+    const prefix = pathPrefix ? pathPrefix.replace(/\\/g, '/').replace(/^\/+|\/+$/g, '').toLowerCase() : '';
+
+    const groups = new Map<string, BrokenLinkGroup>();
+    for (const file of this.index.getFiles()) {
+      const posix = file.split(path.sep).join('/');
+      if (prefix && !posix.toLowerCase().startsWith(prefix + '/')) continue;
+
+      for (const link of this.resolvedLinks.get(file) || []) {
+        let kind: BrokenLinkKind;
+        let note: string | undefined;
+        if (!link.resolved) {
+          if (attachments.resolve(link.target, file, link.type === 'markdown')) continue;
+          kind = link.embed ? 'embed' : 'note';
+        } else if (link.subpath && !this.hasSubpath(link.resolved, link.subpath)) {
+          kind = link.subpath.startsWith('#^') ? 'block' : 'heading';
+          note = link.resolved;
+        } else {
+          continue;
+        }
+
+        const target = link.resolved ? link.target + link.subpath : link.target;
+        const key = `${kind}:${note || ''}:${(note ? link.subpath! : link.target).toLowerCase()}`;
+        let group = groups.get(key);
+        if (!group) {
+          group = {
+            target: note && !link.target ? path.basename(note, '.md') + link.subpath : target,
+            kind,
+            ...(note && { note }),
+            references: [],
+            suggestions: note
+              ? this.suggestSubpaths(note, link.subpath!, maxSuggestions)
+              : this.suggestNotes(link.target, maxSuggestions)
+          };
+          groups.set(key, group);
+        }
+        group.references.push({ source: file, line: link.line, column: link.column, raw: link.raw, type: link.type });
+      }
+    }
+
+    return Array.from(groups.values()).sort(
+      (a, b) => b.references.length - a.references.length || a.target.localeCompare(b.target)
+    );
+  }
+
+  /**
+   * Whether a note has the heading or ^block a link's #subpath points to.
+   * Nested heading links (#Parent#Child) are checked by their last heading.
+   */
+  private hasSubpath(file: string, subpath: string): boolean {
+    const note = this.index.getNote(file);
+    if (!note) return false;
+    if (subpath.startsWith('#^')) {
+      const id = subpath.slice(2).toLowerCase();
+      return note.blockIds.some(blockId => blockId.toLowerCase() === id);
+    }
+    const heading = normalizeHeading(subpath.split('#').pop() || '');
+    return !heading || note.headings.some(text => normalizeHeading(text) === heading);
+  }
+
+  private suggestNotes(target: string, limit: number): BrokenLinkGroup['suggestions'] {
+    const wanted = path.posix.basename(target.replace(/\\/g, '/')).replace(/\.md$/i, '').toLowerCase();
+    const suggestions: BrokenLinkGroup['suggestions'] = [];
+    for (const file of this.index.getFiles()) {
+      const name = path.basename(file, '.md');
+      const aliases = extractAliases(this.index.getNote(file)?.frontmatter || {});
+      const similarity = Math.max(...[name, ...aliases].map(candidate => nameSimilarity(wanted, candidate.toLowerCase())));
+      if (similarity >= SUGGESTION_THRESHOLD) {
+        suggestions.push({ target: name, path: file, similarity: roundScore(similarity) });
+      }
+    }
+    return suggestions.sort((a, b) => b.similarity - a.similarity || a.path.length - b.path.length).slice(0, limit);
+  }
+
+  private suggestSubpaths(file: string, subpath: string, limit: number): BrokenLinkGroup['suggestions'] {
+    const note = this.index.getNote(file);
+    if (!note) return [];
+    const name = path.basename(file, '.md');
+    const isBlock = subpath.startsWith('#^');
+    const wanted = isBlock ? subpath.slice(2).toLowerCase() : normalizeHeading(subpath.split('#').pop() || '');
+    const candidates = isBlock ? note.blockIds.map(id => '^' + id) : note.headings;
+
+    return candidates
+      .map(candidate => ({
+        target: `${name}#${candidate}`,
+        path: file,
+        similarity: roundScore(nameSimilarity(wanted, isBlock ? candidate.slice(1).toLowerCase() : normalizeHeading(candidate)))
+      }))
+      .filter(suggestion => suggestion.similarity >= SUGGESTION_THRESHOLD)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit);
   }
 
   /**
-   * Get all markdown files in the vault
+   * Get all markdown files in the vault, without the excluded ones unless asked
    */
-  private async getAllMarkdownFiles(): Promise<string[]> {
+  async getAllMarkdownFiles(includeExcluded: boolean = false): Promise<string[]> {
+    return this.getAllVaultFiles(name => name.endsWith('.md'), includeExcluded);
+  }
+
+  /**
+   * Get the vault files whose names pass a filter, skipping hidden and non-content folders
+   */
+  private async getAllVaultFiles(
+    include: (name: string, relativePath: string) => boolean,
+    includeExcluded: boolean = false
+  ): Promise<string[]> {
     const files: string[] = [];
+    const isExcluded = includeExcluded ? () => false : this.isExcluded;
 
     async function walk(dir: string, baseDir: string) {
       const entries = await fs.readdir(dir, { withFileTypes: true });
@@ -324,9 +1111,9 @@ export class FilesystemSearch {
 
         if (entry.isDirectory()) {
           await walk(fullPath, baseDir);
-        } else if (entry.isFile() && entry.name.endsWith('.md')) {
+        } else if (entry.isFile()) {
           const relativePath = path.relative(baseDir, fullPath);
-          files.push(relativePath);
+          if (include(entry.name, relativePath) && !isExcluded(relativePath)) files.push(relativePath);
         }
       }
     }
@@ -336,162 +1123,248 @@ export class FilesystemSearch {
   }
 
   /**
-   * Extract frontmatter from markdown content
+   * Build the graph of links between notes from the index, unless it is already current
    */
-  private extractFrontmatter(content: string): Record<string, any> {
-    const frontmatterRegex = /^---\n([\s\S]*?)\n---/;
-    const match = content.match(frontmatterRegex);
-    
-    if (!match) return {};
+  private async buildLinkGraph(): Promise<void> {
+    await this.refreshIndex();
+    if (this.graphRevision === this.index.getRevision()) return;
 
-    try {
-      // Simple YAML parsing (basic implementation)
-      const yaml = match[1];
-      const result: Record<string, any> = {};
-      
-      const lines = yaml.split('\n');
-      for (const line of lines) {
-        const colonIndex = line.indexOf(':');
-        if (colonIndex > 0) {
-          const key = line.substring(0, colonIndex).trim();
-          const value = line.substring(colonIndex + 1).trim();
-          
-          // Remove quotes if present
-          const cleanValue = value.replace(/^["']|["']$/g, '');
-          
-          // Try to parse as JSON for arrays/objects
-          if (cleanValue.startsWith('[') || cleanValue.startsWith('{')) {
-            try {
-              result[key] = JSON.parse(cleanValue);
-            } catch {
-              result[key] = cleanValue;
-            }
-          } else {
-            result[key] = cleanValue;
-          }
-        }
-      }
-      
-      return result;
-    } catch {
-      return {};
+    this.linkCache.clear();
+    this.backlinksCache.clear();
+    this.unresolvedCache.clear();
+    this.resolvedLinks.clear();
+
+    const files = this.index.getFiles();
+    this.resolver = new LinkResolver(files);
+    for (const file of files) {
+      this.addLinks(file);
     }
+    this.graphRevision = this.index.getRevision();
   }
 
   /**
-   * Extract tags from markdown content
+   * Add a note's outgoing links to the graph, resolving each with Obsidian's rules
    */
-  private extractTags(content: string): string[] {
-    const tags: Set<string> = new Set();
-    
-    // Frontmatter tags
-    const frontmatter = this.extractFrontmatter(content);
-    if (frontmatter.tags) {
-      if (Array.isArray(frontmatter.tags)) {
-        frontmatter.tags.forEach(tag => tags.add(tag));
-      } else if (typeof frontmatter.tags === 'string') {
-        tags.add(frontmatter.tags);
+  private addLinks(file: string): void {
+    const links = (this.index.getNote(file)?.links || []).map(link => ({
+      ...link,
+      resolved: this.resolver.resolve(link.target, file, link.type === 'markdown')
+    }));
+    this.resolvedLinks.set(file, links);
+
+    const outgoing = new Set<string>();
+    const unresolved = new Set<string>();
+    for (const link of links) {
+      if (!link.resolved) {
+        unresolved.add(link.target);
+      } else if (link.resolved !== file) {
+        outgoing.add(link.resolved);
       }
     }
-    
-    // Inline tags (#tag)
-    const tagRegex = /#[\w\-\_\/]+/g;
-    const matches = content.match(tagRegex);
-    if (matches) {
-      matches.forEach(tag => tags.add(tag));
+    this.linkCache.set(file, outgoing);
+    this.unresolvedCache.set(file, unresolved);
+
+    // Build backlinks
+    for (const linkedFile of outgoing) {
+      if (!this.backlinksCache.has(linkedFile)) {
+        this.backlinksCache.set(linkedFile, new Set());
+      }
+      this.backlinksCache.get(linkedFile)!.add(file);
     }
-    
-    return Array.from(tags);
   }
 
-  /**
-   * Extract wiki-style links from content
-   */
-  private extractLinks(content: string): string[] {
-    const links: string[] = [];
-    const linkRegex = /\[\[([^\]]+)\]\]/g;
-    
-    let match;
-    while ((match = linkRegex.exec(content)) !== null) {
-      links.push(match[1]);
+  private removeLinks(file: string): void {
+    for (const linkedFile of this.linkCache.get(file) || []) {
+      this.backlinksCache.get(linkedFile)?.delete(file);
     }
-    
-    return links;
+    this.linkCache.delete(file);
+    this.unresolvedCache.delete(file);
+    this.resolvedLinks.delete(file);
   }
 
   /**
-   * Build a graph of links between notes
+   * Update the index and link graph for files a watcher reported as changed.
+   * Edits only touch the changed notes' links; creates, deletes and renames can change
+   * what other links resolve to, so the graph is then re-resolved from the index in memory.
    */
-  private async buildLinkGraph(): Promise<void> {
-    this.linkCache.clear();
-    this.backlinksCache.clear();
+  async applyChanges(changes: VaultChange[]): Promise<void> {
+    // Excluded files stay out of the index; a rename across the filters adds or removes a note
+    const included = changes.flatMap((change): VaultChange[] => {
+      const excluded = this.isExcluded(change.path);
+      if (change.type !== 'renamed' || change.oldPath === undefined) return excluded ? [] : [change];
+      const wasExcluded = this.isExcluded(change.oldPath);
+      if (excluded && wasExcluded) return [];
+      if (excluded) return [{ type: 'deleted', path: change.oldPath }];
+      if (wasExcluded) return [{ type: 'created', path: change.path }];
+      return [change];
+    });
 
-    const files = await this.getAllMarkdownFiles();
+    const isNote = (file?: string) => !!file && file.endsWith('.md');
+    const noteChanges = included.filter(change => isNote(change.path) || isNote(change.oldPath));
+    if (noteChanges.length === 0) return;
 
-    for (const file of files) {
-      const fullPath = path.join(this.vaultPath, file);
-      
-      try {
-        const content = await fs.readFile(fullPath, 'utf-8');
-        const links = this.extractLinks(content);
-        
-        this.linkCache.set(file, new Set(links));
-        
-        // Build backlinks
-        for (const link of links) {
-          // Find the file that matches this link
-          // Use path.sep for cross-platform compatibility
-          const linkedFile = files.find(f => 
-            path.basename(f, '.md') === link || 
-            f === link + '.md' ||
-            f.endsWith(path.sep + link + '.md')
-          );
-          
-          if (linkedFile) {
-            if (!this.backlinksCache.has(linkedFile)) {
-              this.backlinksCache.set(linkedFile, new Set());
-            }
-            this.backlinksCache.get(linkedFile)!.add(file);
-          }
-        }
-      } catch (error) {
-        continue;
+    const graphWasCurrent = this.graphRevision === this.index.getRevision();
+    const modified = noteChanges.filter(c => c.type === 'modified').map(c => c.path);
+    const created = noteChanges.filter(c => c.type === 'created').map(c => c.path);
+    const deleted = noteChanges.filter(c => c.type === 'deleted').map(c => c.path);
+    const renamed: Array<{ from: string; to: string }> = [];
+    for (const change of noteChanges.filter(c => c.type === 'renamed')) {
+      // A rename that changes the extension is a delete or a create as far as notes go
+      if (isNote(change.oldPath) && isNote(change.path)) {
+        renamed.push({ from: change.oldPath!, to: change.path });
+      } else if (isNote(change.oldPath)) {
+        deleted.push(change.oldPath!);
+      } else {
+        created.push(change.path);
       }
     }
+
+    await this.index.applyChanges(modified.concat(created), deleted, renamed);
+
+    // After structural changes the new index revision makes the next graph query re-resolve
+    if (!graphWasCurrent || created.length > 0 || deleted.length > 0 || renamed.length > 0) return;
+
+    for (const file of modified) {
+      this.removeLinks(file);
+      this.addLinks(file);
+    }
+    this.graphRevision = this.index.getRevision();
+  }
+
+  /**
+   * Get the notes that link to a file, using the reverse link index
+   */
+  async getBacklinks(file: string): Promise<string[]> {
+    await this.buildLinkGraph();
+    return Array.from(this.backlinksCache.get(file) || []);
   }
 
   /**
-   * Check if two files are connected within a certain depth
+   * Every link in a note with the file it resolves to, or null when nothing matches
    */
-  private isConnected(file1: string, file2: string, maxDepth: number): boolean {
-    if (file1 === file2) return true;
-    if (maxDepth <= 0) return false;
+  async getOutgoingLinks(file: string): Promise<ResolvedLink[]> {
+    await this.buildLinkGraph();
+    return this.resolvedLinks.get(file) || [];
+  }
 
-    const visited = new Set<string>();
-    const queue: Array<{ file: string; depth: number }> = [{ file: file1, depth: 0 }];
+  /**
+   * Find the note a user-given name refers to, by path or the way it would be linked
+   */
+  private resolveNote(name: string): string {
+    const file = this.resolver.resolve(name, '');
+    if (!file) {
+      throw new Error(`note not found: ${name}`);
+    }
+    return file;
+  }
 
-    while (queue.length > 0) {
-      const { file, depth } = queue.shift()!;
-      
-      if (file === file2) return true;
-      if (depth >= maxDepth) continue;
-      if (visited.has(file)) continue;
-      
-      visited.add(file);
+  private neighbors(file: string, direction: LinkDirection): Set<string> {
+    const outgoing = direction === 'incoming' ? [] : Array.from(this.linkCache.get(file) || []);
+    const incoming = direction === 'outgoing' ? [] : Array.from(this.backlinksCache.get(file) || []);
+    return new Set(outgoing.concat(incoming));
+  }
 
-      // Check outgoing links
-      const links = this.linkCache.get(file) || new Set();
-      for (const link of links) {
-        queue.push({ file: link, depth: depth + 1 });
+  private edge(source: string, target: string): GraphEdge {
+    const links = (this.resolvedLinks.get(source) || [])
+      .filter(link => link.resolved === target)
+      .map(link => ({ line: link.line, column: link.column, raw: link.raw }));
+    return { source, target, links };
+  }
+
+  /**
+   * Notes within `depth` links of `center`, with their distance from it (breadth-first)
+   */
+  private distancesFrom(center: string, depth: number, direction: LinkDirection): Map<string, number> {
+    const distances = new Map<string, number>([[center, 0]]);
+    let frontier = [center];
+    for (let distance = 1; distance <= depth && frontier.length > 0; distance++) {
+      const next: string[] = [];
+      for (const current of frontier) {
+        for (const neighbor of this.neighbors(current, direction)) {
+          if (distances.has(neighbor)) continue;
+          distances.set(neighbor, distance);
+          next.push(neighbor);
+        }
       }
+      frontier = next;
+    }
+    return distances;
+  }
+}
+
+/**
+ * Compare headings the way Obsidian matches #heading links: ignoring case and spacing
+ */
+function normalizeHeading(heading: string): string {
+  return heading.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Similarity of a missing link target to an existing name, heading or block id
+ */
+function nameSimilarity(wanted: string, candidate: string): number {
+  if (!wanted || !candidate) return 0;
+  return Math.max(trigramSimilarity(wanted, candidate), wordSimilarity(wanted, candidate));
+}
 
-      // Check incoming links
-      const backlinks = this.backlinksCache.get(file) || new Set();
-      for (const backlink of backlinks) {
-        queue.push({ file: backlink, depth: depth + 1 });
+function roundScore(score: number): number {
+  return Math.round(score * 10000) / 10000;
+}
+
+/**
+ * How well a note's file name matches the query, as a whole and word by word
+ */
+function matchName(
+  queryLower: string,
+  queryTokens: string[],
+  name: string
+): { similarity: number; whole: TermMatch | null; terms: Array<TermMatch | null> } {
+  let whole = 0;
+  if (name === queryLower) {
+    whole = 1;
+  } else if (name.includes(queryLower)) {
+    whole = 0.8 + 0.2 * (queryLower.length / name.length);
+  } else {
+    whole = Math.max(trigramSimilarity(queryLower, name), wordSimilarity(queryLower, name));
+  }
+
+  const nameTokens = tokenize(name);
+  const terms = queryTokens.map(token => {
+    let best: TermMatch | null = null;
+    for (const nameToken of nameTokens) {
+      const similarity = wordSimilarity(token, nameToken);
+      if (similarity >= FUZZY_THRESHOLD && (!best || similarity > best.similarity)) {
+        best = { query: token, term: nameToken, similarity: roundScore(similarity) };
       }
     }
+    return best;
+  });
+  const byWord = terms.reduce((sum, match) => sum + (match ? match.similarity : 0), 0) / queryTokens.length;
+
+  // Whole-name matches are reported as such when they beat the word-by-word match
+  const wholeMatch = whole > byWord && whole >= FUZZY_THRESHOLD
+    ? { query: queryLower, term: name, similarity: roundScore(whole) }
+    : null;
 
-    return false;
+  return { similarity: Math.max(whole, byWord), whole: wholeMatch, terms };
+}
+
+/**
+ * Matches with a distinct query word and term, keeping the most similar of any repeats
+ */
+function uniqueMatches(matches: TermMatch[]): TermMatch[] {
+  const byKey = new Map<string, TermMatch>();
+  for (const match of matches) {
+    const key = `${match.query}\u0000${match.term.toLowerCase()}`;
+    const seen = byKey.get(key);
+    if (!seen || match.similarity > seen.similarity) byKey.set(key, match);
   }
-}
\ No newline at end of file
+  return Array.from(byKey.values());
+}
+
+/**
+ * Whether a link's target, heading or display text contains the query
+ */
+function linkMatches(link: NoteLink, queryLower: string): boolean {
+  return [link.target, link.subpath || '', link.alias || ''].some(text => text.toLowerCase().includes(queryLower));
+}
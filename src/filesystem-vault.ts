@@ -0,0 +1,291 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { applyPatch, PatchInstruction } from './markdown-patch';
+
+export interface VaultFileListItem {
+  filename: string;
+  path: string;
+  type: 'file' | 'folder';
+  created?: number;
+  modified?: number;
+  size?: number;
+}
+
+export interface WriteResult {
+  path: string;
+  created: boolean;
+  bytesWritten: number;
+}
+
+const MIME_TYPES: Record<string, string> = {
+  '.md': 'text/markdown',
+  '.txt': 'text/plain',
+  '.csv': 'text/csv',
+  '.canvas': 'application/json',
+  '.json': 'application/json',
+  '.dot': 'text/vnd.graphviz',
+  '.mmd': 'text/vnd.mermaid',
+  '.graphml': 'application/graphml+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.bmp': 'image/bmp',
+  '.avif': 'image/avif',
+  '.svg': 'image/svg+xml',
+  '.pdf': 'application/pdf',
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.m4a': 'audio/mp4',
+  '.ogg': 'audio/ogg',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm'
+};
+
+/**
+ * Normalize a vault-relative note path: forward slashes, no leading slash, and a
+ * `.md` extension unless the path ends in a known file type. Titles such as
+ * "Dr. Smith" or "v1.2 release" contain dots without having an extension.
+ */
+export function normalizeNotePath(filepath: string): string {
+  let normalized = filepath.trim().replace(/\\/g, '/').replace(/^\/+/, '');
+  normalized = path.posix.normalize(normalized);
+  if (!MIME_TYPES[path.posix.extname(normalized).toLowerCase()]) {
+    normalized += '.md';
+  }
+  return normalized;
+}
+
+/**
+ * Mime type of a vault file from its extension
+ */
+export function mimeTypeFor(filepath: string): string {
+  return MIME_TYPES[path.extname(filepath).toLowerCase()] || 'application/octet-stream';
+}
+
+/**
+ * Whether a mime type is text that can be returned as a string rather than base64
+ */
+export function isTextMimeType(mimeType: string): boolean {
+  return mimeType.startsWith('text/') || mimeType === 'application/json' || mimeType.endsWith('+xml');
+}
+
+/**
+ * Direct file access to the vault directory, used when the Local REST API is unavailable
+ */
+export class FilesystemVault {
+  private vaultPath: string;
+
+  constructor(vaultPath: string) {
+    this.vaultPath = vaultPath;
+  }
+
+  /**
+   * Resolve a vault-relative path to an absolute one, refusing paths that escape the vault
+   */
+  resolvePath(filepath: string): string {
+    const root = path.resolve(this.vaultPath);
+    const resolved = path.resolve(root, filepath);
+    if (resolved !== root && !resolved.startsWith(root + path.sep)) {
+      throw new Error(`path "${filepath}" is outside the vault`);
+    }
+    return resolved;
+  }
+
+  async exists(filepath: string): Promise<boolean> {
+    try {
+      await fs.access(this.resolvePath(filepath));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async readNote(filepath: string): Promise<string> {
+    try {
+      return await fs.readFile(this.resolvePath(filepath), 'utf-8');
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        throw new Error(`note "${filepath}" does not exist`);
+      }
+      throw error;
+    }
+  }
+
+  async readBinary(filepath: string): Promise<Buffer> {
+    try {
+      return await fs.readFile(this.resolvePath(filepath));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        throw new Error(`file "${filepath}" does not exist`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Timestamps (ms since epoch) and size in bytes for a vault path, or null if it does not exist
+   */
+  async statFile(filepath: string): Promise<{ created: number; modified: number; size: number } | null> {
+    try {
+      const stats = await fs.stat(this.resolvePath(filepath));
+      return {
+        // birthtime is 0 on filesystems that do not record it
+        created: Math.round(stats.birthtimeMs || stats.ctimeMs),
+        modified: Math.round(stats.mtimeMs),
+        size: stats.size
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * List the files and folders directly inside a vault directory
+   */
+  async listFiles(directoryPath?: string): Promise<VaultFileListItem[]> {
+    const cleanDir = (directoryPath || '').trim().replace(/\\/g, '/').replace(/^\/+|\/+$/g, '');
+    const fullDir = this.resolvePath(cleanDir);
+
+    let entries;
+    try {
+      entries = await fs.readdir(fullDir, { withFileTypes: true });
+    } catch (error: any) {
+      if (error?.code === 'ENOENT' || error?.code === 'ENOTDIR') {
+        throw new Error(`directory "${cleanDir || '/'}" does not exist`);
+      }
+      throw error;
+    }
+
+    const items: VaultFileListItem[] = [];
+    for (const entry of entries) {
+      // Hidden entries such as .obsidian and .trash are not part of the vault listing
+      if (entry.name.startsWith('.')) continue;
+      if (!entry.isFile() && !entry.isDirectory()) continue;
+
+      const itemPath = cleanDir ? `${cleanDir}/${entry.name}` : entry.name;
+      const isFolder = entry.isDirectory();
+      const stats = await this.statFile(itemPath);
+      items.push({
+        filename: entry.name,
+        path: itemPath,
+        type: isFolder ? 'folder' : 'file',
+        created: stats?.created,
+        modified: stats?.modified,
+        size: isFolder ? undefined : stats?.size
+      });
+    }
+
+    return items;
+  }
+
+  /**
+   * Every file in the vault, as vault-relative paths with forward slashes
+   */
+  async listAllFiles(): Promise<string[]> {
+    const files: string[] = [];
+    const root = path.resolve(this.vaultPath);
+
+    async function walk(dir: string) {
+      const entries = await fs.readdir(dir, { withFileTypes: true });
+      for (const entry of entries) {
+        if (entry.name.startsWith('.') || entry.name === 'node_modules') continue;
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await walk(fullPath);
+        } else if (entry.isFile()) {
+          files.push(path.relative(root, fullPath).split(path.sep).join('/'));
+        }
+      }
+    }
+
+    await walk(root);
+    return files.sort();
+  }
+
+  /**
+   * Create a new note, failing if it already exists
+   */
+  async createNote(filepath: string, content: string): Promise<WriteResult> {
+    const fullPath = this.resolvePath(filepath);
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+
+    try {
+      // 'wx' fails with EEXIST instead of silently overwriting
+      await fs.writeFile(fullPath, content, { encoding: 'utf-8', flag: 'wx' });
+    } catch (error: any) {
+      if (error?.code === 'EEXIST') {
+        throw new Error(`note "${filepath}" already exists`);
+      }
+      throw error;
+    }
+
+    return { path: filepath, created: true, bytesWritten: Buffer.byteLength(content) };
+  }
+
+  /**
+   * Append to a note, creating it if it does not exist yet
+   */
+  async appendToNote(filepath: string, content: string): Promise<WriteResult> {
+    const fullPath = this.resolvePath(filepath);
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+
+    let existing: string | null = null;
+    try {
+      existing = await fs.readFile(fullPath, 'utf-8');
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') throw error;
+    }
+
+    // Keep the appended text on its own line
+    const separator = existing && !existing.endsWith('\n') ? '\n' : '';
+    const toWrite = separator + content;
+    await fs.appendFile(fullPath, toWrite, 'utf-8');
+
+    return { path: filepath, created: existing === null, bytesWritten: Buffer.byteLength(toWrite) };
+  }
+
+  /**
+   * Replace the full content of an existing note
+   */
+  async replaceNote(filepath: string, content: string): Promise<WriteResult> {
+    const fullPath = this.resolvePath(filepath);
+    if (!(await this.exists(filepath))) {
+      throw new Error(`note "${filepath}" does not exist`);
+    }
+
+    await fs.writeFile(fullPath, content, 'utf-8');
+    return { path: filepath, created: false, bytesWritten: Buffer.byteLength(content) };
+  }
+
+  /**
+   * Insert or replace content relative to a heading, block reference or frontmatter key
+   */
+  async patchNote(filepath: string, instruction: PatchInstruction): Promise<WriteResult> {
+    const fullPath = this.resolvePath(filepath);
+    const content = await this.readNote(filepath);
+    const patched = applyPatch(content, instruction);
+    await fs.writeFile(fullPath, patched, 'utf-8');
+    return { path: filepath, created: false, bytesWritten: Buffer.byteLength(patched) };
+  }
+
+  /**
+   * Rename or move a file within the vault, failing if the destination exists
+   */
+  async moveFile(fromPath: string, toPath: string): Promise<void> {
+    const from = this.resolvePath(fromPath);
+    const to = this.resolvePath(toPath);
+
+    if (!(await this.exists(fromPath))) {
+      throw new Error(`note "${fromPath}" does not exist`);
+    }
+    // Allow case-only renames on case-insensitive filesystems
+    if (from.toLowerCase() !== to.toLowerCase() && (await this.exists(toPath))) {
+      throw new Error(`note "${toPath}" already exists`);
+    }
+
+    await fs.mkdir(path.dirname(to), { recursive: true });
+    await fs.rename(from, to);
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Approximate string matching used by fuzzy search and "did you mean" suggestions
+ */
+
+export interface TermMatch {
+  /** Query word as typed */
+  query: string;
+  /** Vault word or file name it was matched to */
+  term: string;
+  /** 0..1, where 1 is an exact match */
+  similarity: number;
+}
+
+/**
+ * Number of typos tolerated in a word of the given length
+ */
+export function maxEditsFor(length: number): number {
+  if (length <= 2) return 0;
+  if (length <= 4) return 1;
+  if (length <= 8) return 2;
+  return 3;
+}
+
+/**
+ * Edit distance counting insertions, deletions, substitutions and swaps of adjacent
+ * characters as one edit each. Returns `maxDistance + 1` as soon as the distance is
+ * known to exceed `maxDistance`.
+ */
+export function editDistance(a: string, b: string, maxDistance: number = Infinity): number {
+  if (a === b) return 0;
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previousPrevious: number[] = new Array(b.length + 1).fill(0);
+  let previous: number[] = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current: number[] = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Similarity of two words from their edit distance, or 0 when they are further apart
+ * than the typo allowance for the query word
+ */
+export function wordSimilarity(query: string, term: string): number {
+  if (query === term) return 1;
+
+  const maxEdits = maxEditsFor(query.length);
+  const distance = editDistance(query, term, maxEdits);
+  const fromEdits = distance <= maxEdits ? 1 - distance / Math.max(query.length, term.length) : 0;
+
+  // A query word that starts a longer word, like "proj" for "project"
+  const fromPrefix = query.length >= 3 && term.startsWith(query) ? 0.7 + 0.25 * (query.length / term.length) : 0;
+
+  return Math.max(fromEdits, fromPrefix);
+}
+
+function trigrams(text: string): Set<string> {
+  const padded = `  ${text} `;
+  const grams = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) {
+    grams.add(padded.slice(i, i + 3));
+  }
+  return grams;
+}
+
+/**
+ * Trigram (Dice) similarity, tolerant of reordered or extra words in longer strings like file names
+ */
+export function trigramSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const gramsA = trigrams(a);
+  const gramsB = trigrams(b);
+  let shared = 0;
+  for (const gram of gramsA) {
+    if (gramsB.has(gram)) shared++;
+  }
+  return (2 * shared) / (gramsA.size + gramsB.size);
+}
@@ -0,0 +1,251 @@
+/**
+ * Renders a note link graph in formats other tools can display or import:
+ * Mermaid flowcharts, Graphviz DOT, GraphML and node-link JSON (as used by d3 and networkx)
+ */
+
+import * as path from 'path';
+import { normalizeTag } from './note-parser';
+
+export type GraphExportFormat = 'mermaid' | 'dot' | 'graphml' | 'json';
+
+export interface ExportNode {
+  path: string;
+  tags: string[];
+}
+
+export interface ExportEdge {
+  source: string;
+  target: string;
+  /** Number of links from source to target */
+  weight: number;
+}
+
+export interface GraphExportOptions {
+  /** Label nodes by note name, by vault path, or not at all (ids only) */
+  labels?: 'name' | 'path' | 'none';
+  /** Colour each note by its most common tag */
+  colorByTag?: boolean;
+  /** Group notes into a cluster per folder */
+  clusterByFolder?: boolean;
+}
+
+// Colour-blind friendly palette (Tableau 10), assigned to the most common tags first
+const TAG_PALETTE = ['#4e79a7', '#f28e2b', '#e15759', '#76b7b2', '#59a14f', '#edc948', '#b07aa1', '#ff9da7', '#9c755f', '#bab0ac'];
+
+interface PreparedNode extends ExportNode {
+  id: string;
+  label: string;
+  folder: string;
+  color?: string;
+}
+
+export function exportGraph(
+  nodes: ExportNode[],
+  edges: ExportEdge[],
+  format: GraphExportFormat,
+  options: GraphExportOptions = {}
+): string {
+  const prepared = prepareNodes(nodes, options);
+  const ids = new Map(prepared.map(node => [node.path, node.id]));
+  // Edges to notes outside the exported set are left out
+  const kept = edges.filter(edge => ids.has(edge.source) && ids.has(edge.target));
+
+  switch (format) {
+    case 'mermaid':
+      return toMermaid(prepared, kept, ids, options);
+    case 'dot':
+      return toDot(prepared, kept, ids, options);
+    case 'graphml':
+      return toGraphML(prepared, kept, ids);
+    case 'json':
+      return toNodeLinkJson(prepared, kept, options);
+    default:
+      throw new Error(`unsupported graph export format: ${format}`);
+  }
+}
+
+function prepareNodes(nodes: ExportNode[], options: GraphExportOptions): PreparedNode[] {
+  const { labels = 'name', colorByTag = false } = options;
+
+  const tagColors = new Map<string, string>();
+  if (colorByTag) {
+    const counts = new Map<string, number>();
+    for (const node of nodes) {
+      for (const tag of new Set(node.tags.map(normalizeTag))) counts.set(tag, (counts.get(tag) || 0) + 1);
+    }
+    Array.from(counts)
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, TAG_PALETTE.length)
+      .forEach(([tag], i) => tagColors.set(tag, TAG_PALETTE[i]));
+  }
+
+  return nodes.map((node, i) => {
+    const posix = node.path.replace(/\\/g, '/');
+    const folder = path.posix.dirname(posix);
+    // The note's tag that is most common in the graph decides its colour
+    const colorTag = node.tags.map(normalizeTag).find(tag => tagColors.has(tag));
+    return {
+      ...node,
+      id: `n${i}`,
+      label: labels === 'path' ? posix : labels === 'none' ? `n${i}` : path.posix.basename(posix, '.md'),
+      folder: folder === '.' ? '' : folder,
+      ...(colorTag && { color: tagColors.get(colorTag) })
+    };
+  });
+}
+
+function groupByFolder(nodes: PreparedNode[]): Map<string, PreparedNode[]> {
+  const folders = new Map<string, PreparedNode[]>();
+  for (const node of nodes) {
+    const members = folders.get(node.folder);
+    if (members) {
+      members.push(node);
+    } else {
+      folders.set(node.folder, [node]);
+    }
+  }
+  return folders;
+}
+
+function toMermaid(
+  nodes: PreparedNode[],
+  edges: ExportEdge[],
+  ids: Map<string, string>,
+  options: GraphExportOptions
+): string {
+  const escape = (text: string) => text.replace(/"/g, '#quot;');
+  const lines = ['graph LR'];
+  const nodeLine = (node: PreparedNode, indent: string) => `${indent}${node.id}["${escape(node.label)}"]`;
+
+  if (options.clusterByFolder) {
+    let cluster = 0;
+    for (const [folder, members] of groupByFolder(nodes)) {
+      if (!folder) {
+        members.forEach(node => lines.push(nodeLine(node, '  ')));
+        continue;
+      }
+      lines.push(`  subgraph f${cluster++}["${escape(folder)}"]`);
+      members.forEach(node => lines.push(nodeLine(node, '    ')));
+      lines.push('  end');
+    }
+  } else {
+    nodes.forEach(node => lines.push(nodeLine(node, '  ')));
+  }
+
+  for (const edge of edges) {
+    lines.push(`  ${ids.get(edge.source)} --> ${ids.get(edge.target)}`);
+  }
+
+  const byColor = new Map<string, string[]>();
+  for (const node of nodes) {
+    if (node.color) byColor.set(node.color, (byColor.get(node.color) || []).concat(node.id));
+  }
+  let style = 0;
+  for (const [color, members] of byColor) {
+    lines.push(`  classDef tag${style} fill:${color},color:#fff`);
+    lines.push(`  class ${members.join(',')} tag${style++}`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function toDot(
+  nodes: PreparedNode[],
+  edges: ExportEdge[],
+  ids: Map<string, string>,
+  options: GraphExportOptions
+): string {
+  const quote = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  const nodeLine = (node: PreparedNode, indent: string) =>
+    `${indent}${node.id} [label=${quote(node.label)}${node.color ? `, fillcolor=${quote(node.color)}` : ''}];`;
+
+  const lines = [
+    'digraph vault {',
+    '  rankdir=LR;',
+    '  node [shape=box, style="rounded,filled", fillcolor="#ffffff"];'
+  ];
+
+  if (options.clusterByFolder) {
+    let cluster = 0;
+    for (const [folder, members] of groupByFolder(nodes)) {
+      if (!folder) {
+        members.forEach(node => lines.push(nodeLine(node, '  ')));
+        continue;
+      }
+      // Graphviz only draws subgraphs whose name starts with "cluster" as boxes
+      lines.push(`  subgraph cluster_${cluster++} {`);
+      lines.push(`    label=${quote(folder)};`);
+      members.forEach(node => lines.push(nodeLine(node, '    ')));
+      lines.push('  }');
+    }
+  } else {
+    nodes.forEach(node => lines.push(nodeLine(node, '  ')));
+  }
+
+  for (const edge of edges) {
+    const weight = edge.weight > 1 ? ` [penwidth=${Math.min(1 + Math.log2(edge.weight), 5).toFixed(1)}]` : '';
+    lines.push(`  ${ids.get(edge.source)} -> ${ids.get(edge.target)}${weight};`);
+  }
+
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
+
+function toGraphML(nodes: PreparedNode[], edges: ExportEdge[], ids: Map<string, string>): string {
+  const escape = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  const data = (key: string, value: string | number) => `<data key="${key}">${escape(String(value))}</data>`;
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+    '  <key id="path" for="node" attr.name="path" attr.type="string"/>',
+    '  <key id="folder" for="node" attr.name="folder" attr.type="string"/>',
+    '  <key id="tags" for="node" attr.name="tags" attr.type="string"/>',
+    '  <key id="color" for="node" attr.name="color" attr.type="string"/>',
+    '  <key id="weight" for="edge" attr.name="weight" attr.type="int"/>',
+    '  <graph id="vault" edgedefault="directed">'
+  ];
+
+  for (const node of nodes) {
+    const fields = [
+      data('label', node.label),
+      data('path', node.path.replace(/\\/g, '/')),
+      data('folder', node.folder),
+      data('tags', node.tags.join(' ')),
+      ...(node.color ? [data('color', node.color)] : [])
+    ];
+    lines.push(`    <node id="${node.id}">${fields.join('')}</node>`);
+  }
+  edges.forEach((edge, i) => {
+    lines.push(
+      `    <edge id="e${i}" source="${ids.get(edge.source)}" target="${ids.get(edge.target)}">${data('weight', edge.weight)}</edge>`
+    );
+  });
+
+  lines.push('  </graph>', '</graphml>');
+  return lines.join('\n') + '\n';
+}
+
+function toNodeLinkJson(nodes: PreparedNode[], edges: ExportEdge[], options: GraphExportOptions): string {
+  const graph = {
+    directed: true,
+    multigraph: false,
+    graph: {},
+    nodes: nodes.map(node => ({
+      id: node.path.replace(/\\/g, '/'),
+      label: node.label,
+      tags: node.tags,
+      folder: node.folder,
+      ...(options.clusterByFolder && { group: node.folder || '/' }),
+      ...(node.color && { color: node.color })
+    })),
+    links: edges.map(edge => ({
+      source: edge.source.replace(/\\/g, '/'),
+      target: edge.target.replace(/\\/g, '/'),
+      weight: edge.weight
+    }))
+  };
+  return JSON.stringify(graph, null, 2) + '\n';
+}
@@ -0,0 +1,222 @@
+/**
+ * Centrality and community detection over the note link graph. Links are directed
+ * (source note to linked note) for degree and PageRank; betweenness and communities
+ * treat the graph as undirected, as a link connects two topics either way.
+ */
+
+export interface NoteMetrics {
+  inDegree: number;
+  outDegree: number;
+  pageRank: number;
+  /** Share of shortest paths between other notes that pass through this note, 0..1 */
+  betweenness: number;
+  community: number;
+}
+
+export interface Community {
+  id: number;
+  size: number;
+  members: string[];
+  /** Most common tags among the members, most frequent first */
+  dominantTags: Array<{ tag: string; count: number }>;
+}
+
+const PAGERANK_DAMPING = 0.85;
+const PAGERANK_MAX_ITERATIONS = 100;
+const PAGERANK_TOLERANCE = 1e-8;
+
+/**
+ * PageRank by power iteration. Notes without outgoing links spread their rank over all
+ * notes, so the ranks always sum to 1.
+ */
+export function pageRank(nodes: string[], outgoing: Map<string, Set<string>>): Map<string, number> {
+  const n = nodes.length;
+  const ranks = new Map<string, number>();
+  if (n === 0) return ranks;
+
+  let current = new Map(nodes.map(node => [node, 1 / n]));
+  for (let iteration = 0; iteration < PAGERANK_MAX_ITERATIONS; iteration++) {
+    let dangling = 0;
+    for (const node of nodes) {
+      if ((outgoing.get(node)?.size || 0) === 0) dangling += current.get(node)!;
+    }
+
+    const base = (1 - PAGERANK_DAMPING) / n + (PAGERANK_DAMPING * dangling) / n;
+    const next = new Map(nodes.map(node => [node, base]));
+    for (const node of nodes) {
+      const targets = outgoing.get(node);
+      if (!targets || targets.size === 0) continue;
+      const share = (PAGERANK_DAMPING * current.get(node)!) / targets.size;
+      for (const target of targets) {
+        if (next.has(target)) next.set(target, next.get(target)! + share);
+      }
+    }
+
+    let change = 0;
+    for (const node of nodes) change += Math.abs(next.get(node)! - current.get(node)!);
+    current = next;
+    if (change < PAGERANK_TOLERANCE) break;
+  }
+
+  for (const [node, rank] of current) ranks.set(node, rank);
+  return ranks;
+}
+
+/**
+ * Normalised betweenness centrality (Brandes' algorithm) on the undirected graph.
+ * Takes O(notes * links) time.
+ */
+export function betweenness(nodes: string[], neighbors: Map<string, Set<string>>): Map<string, number> {
+  const centrality = new Map(nodes.map(node => [node, 0]));
+
+  for (const source of nodes) {
+    const stack: string[] = [];
+    const predecessors = new Map<string, string[]>();
+    const paths = new Map<string, number>([[source, 1]]);
+    const distance = new Map<string, number>([[source, 0]]);
+    const queue = [source];
+
+    for (let head = 0; head < queue.length; head++) {
+      const node = queue[head];
+      stack.push(node);
+      for (const neighbor of neighbors.get(node) || []) {
+        if (!distance.has(neighbor)) {
+          distance.set(neighbor, distance.get(node)! + 1);
+          queue.push(neighbor);
+        }
+        if (distance.get(neighbor) === distance.get(node)! + 1) {
+          paths.set(neighbor, (paths.get(neighbor) || 0) + paths.get(node)!);
+          const preceding = predecessors.get(neighbor);
+          if (preceding) {
+            preceding.push(node);
+          } else {
+            predecessors.set(neighbor, [node]);
+          }
+        }
+      }
+    }
+
+    const dependency = new Map<string, number>();
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      for (const preceding of predecessors.get(node) || []) {
+        const share = (paths.get(preceding)! / paths.get(node)!) * (1 + (dependency.get(node) || 0));
+        dependency.set(preceding, (dependency.get(preceding) || 0) + share);
+      }
+      if (node !== source) {
+        centrality.set(node, centrality.get(node)! + (dependency.get(node) || 0));
+      }
+    }
+  }
+
+  // Each undirected path was counted from both ends
+  const pairs = ((nodes.length - 1) * (nodes.length - 2)) / 2;
+  for (const [node, value] of centrality) {
+    centrality.set(node, pairs > 0 ? value / 2 / pairs : 0);
+  }
+  return centrality;
+}
+
+/**
+ * Group notes into communities with the Louvain method, which greedily moves notes
+ * between communities while modularity improves, then repeats on the graph of communities.
+ * Community ids are numbered from 0 by decreasing size.
+ */
+export function detectCommunities(nodes: string[], neighbors: Map<string, Set<string>>): Map<string, number> {
+  const indexOf = new Map(nodes.map((node, i) => [node, i]));
+  // Weighted adjacency of the current level, as lists of [neighbor, weight]
+  let graph: Array<Map<number, number>> = nodes.map(() => new Map());
+  for (const [node, linked] of neighbors) {
+    const i = indexOf.get(node);
+    if (i === undefined) continue;
+    for (const other of linked) {
+      const j = indexOf.get(other);
+      if (j === undefined || j === i) continue;
+      graph[i].set(j, 1);
+      graph[j].set(i, 1);
+    }
+  }
+
+  // Community of each original note, refined level by level
+  let membership = nodes.map((_, i) => i);
+
+  for (;;) {
+    const community = localMoving(graph);
+    const ids = renumber(community);
+    const moved = ids.count < graph.length;
+    membership = membership.map(level => ids.mapping[community[level]]);
+    if (!moved) break;
+
+    const aggregated: Array<Map<number, number>> = Array.from({ length: ids.count }, () => new Map());
+    graph.forEach((edges, i) => {
+      const from = ids.mapping[community[i]];
+      for (const [j, weight] of edges) {
+        const to = ids.mapping[community[j]];
+        aggregated[from].set(to, (aggregated[from].get(to) || 0) + weight);
+      }
+    });
+    graph = aggregated;
+  }
+
+  // Largest community first
+  const sizes = new Map<number, number>();
+  for (const id of membership) sizes.set(id, (sizes.get(id) || 0) + 1);
+  const order = Array.from(sizes.keys()).sort((a, b) => sizes.get(b)! - sizes.get(a)! || a - b);
+  const rank = new Map(order.map((id, i) => [id, i]));
+
+  return new Map(nodes.map((node, i) => [node, rank.get(membership[i])!]));
+}
+
+/**
+ * One Louvain pass: move each node to the neighbouring community with the best
+ * modularity gain until no move helps. Self-loops (graph[i] containing i) carry
+ * the weight inside an aggregated community.
+ */
+function localMoving(graph: Array<Map<number, number>>): number[] {
+  const community = graph.map((_, i) => i);
+  const degree = graph.map(edges => Array.from(edges.values()).reduce((sum, weight) => sum + weight, 0));
+  const total = degree.slice();
+  const twiceWeight = degree.reduce((sum, value) => sum + value, 0);
+  if (twiceWeight === 0) return community;
+
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < graph.length; i++) {
+      const own = community[i];
+      const weightTo = new Map<number, number>();
+      for (const [j, weight] of graph[i]) {
+        if (j === i) continue;
+        weightTo.set(community[j], (weightTo.get(community[j]) || 0) + weight);
+      }
+
+      total[own] -= degree[i];
+      let best = own;
+      let bestGain = (weightTo.get(own) || 0) - (total[own] * degree[i]) / twiceWeight;
+      for (const [candidate, weight] of weightTo) {
+        const gain = weight - (total[candidate] * degree[i]) / twiceWeight;
+        if (gain > bestGain + 1e-12) {
+          best = candidate;
+          bestGain = gain;
+        }
+      }
+      total[best] += degree[i];
+
+      if (best !== own) {
+        community[i] = best;
+        improved = true;
+      }
+    }
+  }
+
+  return community;
+}
+
+function renumber(community: number[]): { mapping: Record<number, number>; count: number } {
+  const mapping: Record<number, number> = {};
+  let count = 0;
+  for (const id of community) {
+    if (mapping[id] === undefined) mapping[id] = count++;
+  }
+  return { mapping, count };
+}
@@ -0,0 +1,186 @@
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import * as http from 'http';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  /** Clients must send `Authorization: Bearer <token>`; required unless bound to loopback */
+  token?: string;
+  /** Endpoint path, /mcp by default */
+  path?: string;
+  /** Close sessions with no request for this long, 30 minutes by default */
+  sessionIdleMs?: number;
+  log: (entry: Record<string, any>) => void;
+}
+
+// Largest JSON-RPC request body accepted
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+const DEFAULT_SESSION_IDLE_MS = 30 * 60 * 1000;
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  lastActivity: number;
+  /** Requests still being answered, including open event streams */
+  openRequests: number;
+}
+
+export function isLoopbackHost(host: string): boolean {
+  return host === 'localhost' || host === '::1' || host.startsWith('127.');
+}
+
+/**
+ * Serve MCP over Streamable HTTP. Every client session gets its own server from
+ * `createServer`, so sessions behave exactly like separate stdio connections.
+ */
+export async function startHttpServer(createServer: () => McpServer, options: HttpServerOptions): Promise<http.Server> {
+  const { host, port, token, path: endpoint = '/mcp', sessionIdleMs = DEFAULT_SESSION_IDLE_MS, log } = options;
+  const loopback = isLoopbackHost(host);
+  if (!token && !loopback) {
+    throw new Error(`a bearer token (--httpToken) is required to listen on non-loopback host ${host}`);
+  }
+
+  const sessions = new Map<string, Session>();
+
+  // Count a request against its session until the response ends, so a client
+  // listening on an event stream is never taken for idle
+  async function handleInSession(session: Session, req: http.IncomingMessage, res: http.ServerResponse, body: unknown) {
+    session.openRequests++;
+    session.lastActivity = Date.now();
+    res.once('close', () => {
+      session.openRequests--;
+      session.lastActivity = Date.now();
+    });
+    await session.transport.handleRequest(req, res, body);
+  }
+
+  async function handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (url.pathname !== endpoint) {
+      sendError(res, 404, -32000, `not found, the mcp endpoint is ${endpoint}`);
+      return;
+    }
+    if (token && !hasBearerToken(req, token)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendError(res, 401, -32001, 'missing or invalid bearer token');
+      return;
+    }
+
+    let body: unknown;
+    if (req.method === 'POST') {
+      try {
+        body = await readJsonBody(req);
+      } catch (error) {
+        sendError(res, 400, -32700, error instanceof Error ? error.message : 'invalid request body');
+        return;
+      }
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+    if (typeof sessionId === 'string') {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        sendError(res, 404, -32001, 'session not found, start a new session with an initialize request');
+        return;
+      }
+      await handleInSession(session, req, res, body);
+      return;
+    }
+
+    const initializing = Array.isArray(body) ? body.some(isInitializeRequest) : isInitializeRequest(body);
+    if (req.method !== 'POST' || !initializing) {
+      sendError(res, 400, -32000, 'bad request: send an initialize request first, then the mcp-session-id header');
+      return;
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => {
+        sessions.set(id, { transport, lastActivity: Date.now(), openRequests: 0 });
+        log({ level: 'info', message: 'http session started', session_id: id, active_sessions: sessions.size });
+      },
+      // Stop web pages from reaching a local server through DNS rebinding
+      enableDnsRebindingProtection: loopback,
+      ...(loopback && { allowedHosts: ['127.0.0.1', 'localhost', '[::1]'].map(name => `${name}:${port}`) })
+    });
+    transport.onclose = () => {
+      if (transport.sessionId && sessions.delete(transport.sessionId)) {
+        log({ level: 'info', message: 'http session closed', session_id: transport.sessionId, active_sessions: sessions.size });
+      }
+    };
+
+    await createServer().connect(transport);
+    try {
+      await transport.handleRequest(req, res, body);
+    } finally {
+      // A rejected initialize request never gets a session, so nothing would close its server
+      if (!transport.sessionId || !sessions.has(transport.sessionId)) {
+        await transport.close();
+      }
+    }
+  }
+
+  const server = http.createServer((req, res) => {
+    handle(req, res).catch(error => {
+      log({ level: 'error', message: 'http request failed', error: error instanceof Error ? error.message : String(error) });
+      if (!res.headersSent) sendError(res, 500, -32603, 'internal server error');
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  // Abandoned sessions would otherwise keep their server and vault listeners forever
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    for (const [id, session] of sessions) {
+      if (session.openRequests > 0 || now - session.lastActivity < sessionIdleMs) continue;
+      log({ level: 'info', message: 'http session expired', session_id: id, idle_ms: now - session.lastActivity });
+      session.transport.close().catch(error => {
+        log({ level: 'warn', message: 'could not close http session', session_id: id, error: error instanceof Error ? error.message : String(error) });
+      });
+    }
+  }, Math.min(sessionIdleMs, 60 * 1000));
+  sweep.unref();
+  server.on('close', () => clearInterval(sweep));
+
+  return server;
+}
+
+function hasBearerToken(req: http.IncomingMessage, token: string): boolean {
+  const match = (req.headers.authorization || '').match(/^Bearer\s+(.+)$/i);
+  if (!match) return false;
+  // Compare digests so the comparison takes the same time whatever the token length
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(match[1].trim()), digest(token));
+}
+
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error('request body too large');
+    }
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+  } catch {
+    throw new Error('parse error: request body is not valid json');
+  }
+}
+
+function sendError(res: http.ServerResponse, status: number, code: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
@@ -1,14 +1,49 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 import yargs from "yargs";
 import { hideBin } from "yargs/helpers";
 
-import { Obsidian } from "./obsidian";
+import {
+  Obsidian,
+  ObsidianProtocol,
+  ObsidianTlsOptions,
+  detectObsidianConfig,
+  isConnectionRefused,
+} from "./obsidian";
 import { FilesystemSearch } from "./filesystem-search";
 import { VaultDetector } from "./vault-detector";
+import {
+  FilesystemVault,
+  VaultFileListItem,
+  isTextMimeType,
+  mimeTypeFor,
+  normalizeNotePath,
+} from "./filesystem-vault";
+import { NoteMover } from "./note-mover";
+import { DataviewEngine } from "./dataview-engine";
+import { VaultChange, VaultWatcher } from "./vault-watcher";
+import {
+  VaultConfig,
+  VaultContext,
+  VaultRegistry,
+  mergeRankedResults,
+  parseVaultSpec,
+  readVaultsFile,
+  validateVaultConfigs,
+} from "./vault-registry";
+import { startHttpServer } from "./http-transport";
+import { isPlainTextQuery, parseSearchQuery } from "./search-query";
+import { exportGraph } from "./graph-export";
+import { linkMentions } from "./unlinked-mentions";
+import { attachmentPath, loadVaultSettings } from "./vault-settings";
 import path from "path";
 import * as os from "os";
+import * as fs from "fs/promises";
 
 // --- Argument Parsing ---
 async function parseArgs() {
@@ -27,14 +62,31 @@ async function parseArgs() {
         },
         port: {
           type: "number",
-          default: 27123,
-          description: "obsidian local rest api port",
+          description: "obsidian local rest api port (default: 27123 for http, 27124 for https, or whichever of them is open)",
         },
         host: {
           type: "string",
           default: "127.0.0.1",
           description: "obsidian local rest api host",
         },
+        protocol: {
+          type: "string",
+          choices: ["http", "https"],
+          description: "obsidian local rest api protocol; https is the plugin's default, with a self-signed certificate",
+        },
+        certPath: {
+          type: "string",
+          description: "pem file of the plugin's certificate to trust for https (download it from /obsidian-local-rest-api.crt)",
+        },
+        certFingerprint: {
+          type: "string",
+          description: "sha-256 fingerprint of the plugin's certificate to trust for https",
+        },
+        trustSelfSigned: {
+          type: "boolean",
+          default: false,
+          description: "accept the plugin's https certificate without checking it (only the api connection is affected)",
+        },
         timeout: {
           type: "number",
           default: 15000,
@@ -50,6 +102,51 @@ async function parseArgs() {
           default: defaultVaultPath,
           description: "path to obsidian vault (for filesystem fallback)",
         },
+        vault: {
+          type: "string",
+          array: true,
+          description: "vault to serve as name=path; repeat for several vaults, the first is the default",
+        },
+        vaultsConfig: {
+          type: "string",
+          description: "json file listing vaults as [{ name, path, apiKey, host, port, protocol }], each with its own optional rest api",
+        },
+        watch: {
+          type: "boolean",
+          default: true,
+          description: "watch the vault for changes to keep the search index and link graph current",
+        },
+        pollInterval: {
+          type: "number",
+          default: 5000,
+          description: "rescan interval in milliseconds when native file watching is unavailable",
+        },
+        transport: {
+          type: "string",
+          choices: ["stdio", "http"],
+          default: "stdio",
+          description: "serve mcp over stdio, or over streamable http for several clients at once",
+        },
+        httpHost: {
+          type: "string",
+          default: "127.0.0.1",
+          description: "address the http transport listens on",
+        },
+        httpPort: {
+          type: "number",
+          default: 3000,
+          description: "port the http transport listens on",
+        },
+        httpToken: {
+          type: "string",
+          default: process.env.OBSIDIAN_MCP_TOKEN,
+          description: "bearer token http clients must send (or set OBSIDIAN_MCP_TOKEN); required off localhost",
+        },
+        httpSessionTimeout: {
+          type: "number",
+          default: 30 * 60 * 1000,
+          description: "close http sessions that have made no request for this many milliseconds",
+        },
       })
       .strict() // Ensure only defined options are accepted
       .help()
@@ -60,9 +157,22 @@ async function parseArgs() {
       apiKey: argv.apiKey,
       port: argv.port,
       host: argv.host,
+      protocol: argv.protocol as ObsidianProtocol | undefined,
+      certPath: argv.certPath,
+      certFingerprint: argv.certFingerprint,
+      trustSelfSigned: argv.trustSelfSigned,
       timeout: argv.timeout,
       debug: argv.debug,
       vaultPath: argv.vaultPath,
+      vaults: argv.vault ?? [],
+      vaultsConfig: argv.vaultsConfig,
+      watch: argv.watch,
+      pollInterval: argv.pollInterval,
+      transport: argv.transport as "stdio" | "http",
+      httpHost: argv.httpHost,
+      httpPort: argv.httpPort,
+      httpToken: argv.httpToken,
+      httpSessionTimeout: argv.httpSessionTimeout,
     };
   } catch (error: any) {
     logJsonError({
@@ -84,6 +194,14 @@ function formatError(error: unknown): string {
   return String(error);
 }
 
+// Whether an api error means the server is unreachable (as opposed to rejecting the request)
+function isConnectionError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return /network error|timed out|circuit breaker|failed to check existence/i.test(
+    message
+  );
+}
+
 // Convert LIST and TASK queries to TABLE format for API compatibility
 function convertToTableQuery(query: string): { converted: string; originalType: string } {
   const trimmedQuery = query.trim();
@@ -106,6 +224,11 @@ function convertToTableQuery(query: string): { converted: string; originalType:
   return { converted: query, originalType: 'table' };
 }
 
+// The method every vault used, or "mixed" when a cross-vault search used several
+function sameOrMixed(methods: string[]): string {
+  return methods.every((method) => method === methods[0]) ? methods[0] : "mixed";
+}
+
 // Helper function for JSON logging to stderr
 function logJsonError(logObject: Record<string, any>): void {
   console.error(JSON.stringify(logObject));
@@ -171,11 +294,11 @@ function generateDataviewSuggestions(query: string, error?: string): string[] {
 
   // Inform about LIST/TASK conversion
   if (lowerQuery.startsWith('list')) {
-    suggestions.push('LIST queries are automatically converted to TABLE format for API compatibility');
+    suggestions.push('LIST queries are converted to TABLE format when sent to the local rest api');
   }
   
   if (lowerQuery.startsWith('task')) {
-    suggestions.push('TASK queries are automatically converted to TABLE format with file.tasks included');
+    suggestions.push('TASK queries are converted to TABLE format with file.tasks included when sent to the local rest api');
   }
 
   if (!lowerQuery.includes("from")) {
@@ -208,21 +331,47 @@ function generateDataviewSuggestions(query: string, error?: string): string[] {
 }
 
 // --- MCP Server Setup ---
-const server = new McpServer(
-  {
-    name: "easy-obsidian-mcp",
-    version: "0.1.0",
-    description: "interact with your obsidian vault via local rest api",
-  },
-  {
-    instructions: `
+// A new server for each connection: stdio has one, the http transport one per session.
+// `apiEndpoints` are the rest api addresses resolved for the vaults that have an api key.
+function createMcpServer(apiEndpoints: string[]): McpServer {
+  return new McpServer(
+    {
+      name: "easy-obsidian-mcp",
+      version: "0.1.0",
+      description: "interact with your obsidian vault via local rest api",
+    },
+    {
+      instructions: `
 you are a helpful assistant that can interact with a user's obsidian vault through the local rest api.
 
 **available tools:**
 - obsidian_simple_search: search for text content across all files
-- obsidian_dataview_search: execute dataview queries for structured data retrieval
+- obsidian_dataview_search: execute dataview queries for structured data retrieval (answered locally when the api or dataview plugin is unavailable)
 - obsidian_get_file_content: retrieve the full content of a specific file
 - obsidian_list_files: list files and folders within a specified directory (or vault root)
+- obsidian_create_note: create a new note (fails if it already exists)
+- obsidian_append_to_note: append text to the end of a note, creating it if needed
+- obsidian_replace_note: overwrite the full content of an existing note
+- obsidian_patch_note: insert or replace content under a heading, at a ^block-id, or in a frontmatter key
+- obsidian_move_note: rename or move a note and update every link pointing to it
+- obsidian_broken_links: list links to missing notes, attachments, headings or blocks, with suggested fixes
+- obsidian_link_path: find the shortest chain of links between two notes
+- obsidian_neighborhood: get the notes within n links of a note and the links between them
+- obsidian_graph_export: export the link graph as mermaid, graphviz dot, graphml or json
+- obsidian_unlinked_mentions: find unlinked mentions of a note and optionally turn them into wikilinks
+- obsidian_list_vaults: list the vaults this server serves
+
+**vaults:**
+- every tool takes an optional 'vault' name; without it, tools use the default (first) vault
+- obsidian_simple_search and obsidian_fuzzy_search search every vault when no vault is named, merging the rankings and labelling each result with its vault
+- resources use the default vault; prompts take an optional 'vault' like the tools
+
+**resources:**
+- every file of the default vault is available as obsidian://vault/{path}, with markdown as text and images or pdfs as binary; other vaults are only reachable through tools
+- subscribe to a resource to be notified when the file changes; the resource list changes when files are added, removed or renamed
+
+**prompts:**
+- weekly_review, summarize_note, find_related, daily_standup_from_journal and cleanup_orphans expand into messages with the relevant notes attached
 
 **search optimization tips:**
 - for finding people: try both simple search and dataview queries
@@ -235,18 +384,41 @@ you are a helpful assistant that can interact with a user's obsidian vault throu
 - dataview queries use dql (dataview query language) syntax
 - file paths in results are relative to vault root
 - empty results mean no matches were found, not an error
+- write tools add a .md extension unless the path ends in a known file type such as .md, .canvas or an image
+- prefer obsidian_patch_note over rewriting a whole note
 
 **troubleshooting:**
 - ensure obsidian local rest api plugin is installed and running
 - verify the api key is correct
-- if the api is unavailable, filesystem search will be used as fallback
-- vault location is auto-detected or can be set via --vaultPath argument
-- check that the specified port (${
-      process.env.OBSIDIAN_PORT || 27123
-    }) is accessible
+- if the api is unavailable, search, reading and listing fall back to the vault files
+- vault location is auto-detected or can be set via --vaultPath argument; serve several vaults with --vault name=path or --vaultsConfig
+- ${
+        apiEndpoints.length > 0
+          ? `check that the local rest api is reachable at ${apiEndpoints.join(", ")}`
+          : "no api key is configured, so tools work on the vault files; set OBSIDIAN_API_KEY to use the local rest api"
+      }
 `,
-  }
-);
+    }
+  );
+}
+
+// Every tool works on one named vault, the first configured one by default
+const vaultSchema = z
+  .string()
+  .max(200, "vault name too long")
+  .optional()
+  .describe(
+    "name of the vault to use, as listed by obsidian_list_vaults (default: the first configured vault)"
+  );
+
+// Search tools look through every vault unless one is named
+const searchVaultSchema = z
+  .string()
+  .max(200, "vault name too long")
+  .optional()
+  .describe(
+    "name of the vault to search, as listed by obsidian_list_vaults. omit to search every vault and merge the rankings"
+  );
 
 // Define schemas separately for clarity and type inference
 const simpleSearchSchema = z.object({
@@ -255,7 +427,9 @@ const simpleSearchSchema = z.object({
     .min(1, "search query cannot be empty")
     .max(1000, "search query too long")
     .describe(
-      "text to search for in the vault. searches across all file content. case-insensitive."
+      `text to search for in the vault. searches across all file content. case-insensitive.
+supports obsidian search syntax: words must all match, "quoted phrase", OR, -term or NOT term, (grouping),
+tag:#project, path:Projects/, file:meeting, line:(alpha beta), section:(goals), [status] and [status:done].`
     ),
   context_length: z
     .number()
@@ -283,6 +457,7 @@ const simpleSearchSchema = z.object({
     .describe(
       "number of results to skip for pagination (default: 0). use with max_results to paginate through results"
     ),
+  vault: searchVaultSchema,
 });
 
 const dataviewSearchSchema = z.object({
@@ -306,6 +481,7 @@ common patterns:
 - notes linking to file: "list from [[FILENAME]]"
 
 see https://blacksmithgu.github.io/obsidian-dataview/ for full syntax`),
+  vault: vaultSchema,
 });
 
 const getFileContentToolSchema = z.object({
@@ -316,6 +492,7 @@ const getFileContentToolSchema = z.object({
     .describe(
       "path to the file relative to the vault root (e.g., 'notes/my important note.md')"
     ),
+  vault: vaultSchema,
 });
 
 const listFilesToolSchema = z.object({
@@ -357,53 +534,183 @@ const listFilesToolSchema = z.object({
     .describe(
       "sort order for the results (default: 'asc')"
     ),
+  vault: vaultSchema,
+});
+
+const writeNoteSchema = z.object({
+  filepath: z
+    .string()
+    .min(1, "filepath cannot be empty")
+    .max(1000, "filepath too long")
+    .describe(
+      "path to the note relative to the vault root (e.g., 'meetings/2024-06-01 standup.md'). a .md extension is added unless the path ends in a known file type such as .md, .canvas or an image"
+    ),
+  content: z
+    .string()
+    .max(5_000_000, "content too long")
+    .describe("markdown content to write"),
+  vault: vaultSchema,
+});
+
+type WriteMode = "create" | "append" | "replace";
+
+const patchNoteSchema = z.object({
+  filepath: writeNoteSchema.shape.filepath,
+  operation: z
+    .enum(["append", "prepend", "replace"])
+    .describe(
+      "append: add after the target's content, prepend: add right after the heading or before the block, replace: swap the target's content"
+    ),
+  target_type: z
+    .enum(["heading", "block", "frontmatter"])
+    .describe("what kind of target to edit"),
+  target: z
+    .string()
+    .min(1, "target cannot be empty")
+    .max(1000, "target too long")
+    .describe(
+      "heading path joined by the delimiter (e.g., 'Meetings::Action Items'), block id (e.g., '^abc123'), or frontmatter key (e.g., 'status')"
+    ),
+  content: z
+    .string()
+    .max(5_000_000, "content too long")
+    .describe(
+      "markdown to insert. for frontmatter targets, a json value (e.g., '\"done\"', '[\"a\", \"b\"]', '3') or plain text"
+    ),
+  target_delimiter: z
+    .string()
+    .min(1)
+    .max(10)
+    .optional()
+    .default("::")
+    .describe("separator between nested heading names (default: '::')"),
+  create_target_if_missing: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe(
+      "create the heading or frontmatter key when it does not exist (default: false)"
+    ),
+  vault: vaultSchema,
+});
+
+const moveNoteSchema = z.object({
+  from_path: z
+    .string()
+    .min(1, "from_path cannot be empty")
+    .max(1000, "from_path too long")
+    .describe("current path of the note relative to the vault root"),
+  to_path: z
+    .string()
+    .min(1, "to_path cannot be empty")
+    .max(1000, "to_path too long")
+    .describe(
+      "new path of the note relative to the vault root (e.g., 'archive/2024/old note.md')"
+    ),
+  dry_run: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe(
+      "only list the files and lines whose links would change, without moving anything (default: false)"
+    ),
+  vault: vaultSchema,
 });
 
 // --- Start Server ---
 async function main() {
-  const { apiKey, port, host, timeout, debug, vaultPath: argVaultPath } = await parseArgs();
-  
-  // Initialize vault detector
-  const vaultDetector = new VaultDetector();
-  
-  // Determine vault path with multiple fallbacks
-  let vaultPath = argVaultPath;
-  
-  if (!vaultPath || vaultPath === path.join(os.homedir(), 'Documents', 'Obsidian')) {
-    // Try to get from stored config
-    const storedPath = await vaultDetector.getStoredVaultPath();
-    
-    if (storedPath) {
-      vaultPath = storedPath;
-      logJsonError({
-        level: "info",
-        message: `📁 Using stored vault path: ${vaultPath}`
-      });
-    } else {
-      // Auto-detect vault
-      logJsonError({
-        level: "info",
-        message: "🔍 Auto-detecting Obsidian vault location..."
-      });
-      
-      const detectedPath = await vaultDetector.autoDetectVault();
-      
-      if (detectedPath) {
-        vaultPath = detectedPath;
+  const {
+    apiKey: argApiKey,
+    port: argPort,
+    host: argHost,
+    protocol: argProtocol,
+    certPath: argCertPath,
+    certFingerprint: argCertFingerprint,
+    trustSelfSigned: argTrustSelfSigned,
+    timeout,
+    debug,
+    vaultPath: argVaultPath,
+    vaults: vaultSpecs,
+    vaultsConfig,
+    watch,
+    pollInterval,
+    transport: transportMode,
+    httpHost,
+    httpPort,
+    httpToken,
+    httpSessionTimeout,
+  } = await parseArgs();
+
+  // Named vaults from --vault and --vaultsConfig, the first one being the default
+  let vaultConfigs: VaultConfig[] = [];
+  try {
+    vaultConfigs = [
+      ...vaultSpecs.map(parseVaultSpec),
+      ...(vaultsConfig ? await readVaultsFile(vaultsConfig) : []),
+    ];
+    if (vaultConfigs.length > 0) validateVaultConfigs(vaultConfigs);
+  } catch (error) {
+    logJsonError({
+      level: "error",
+      message: "invalid vault configuration",
+      error: formatError(error),
+    });
+    process.exit(1);
+  }
+
+  if (vaultConfigs.length === 0) {
+    // Initialize vault detector
+    const vaultDetector = new VaultDetector();
+
+    // Determine vault path with multiple fallbacks
+    let vaultPath = argVaultPath;
+
+    if (!vaultPath || vaultPath === path.join(os.homedir(), 'Documents', 'Obsidian')) {
+      // Obsidian's own vault list comes first; the stored path only caches an earlier scan
+      const registeredVaults = await vaultDetector.getRegisteredVaults();
+      const storedPath = registeredVaults.length > 0 ? null : await vaultDetector.getStoredVaultPath();
+
+      if (storedPath) {
+        vaultPath = storedPath;
         logJsonError({
           level: "info",
-          message: `✅ Found vault at: ${vaultPath}`
+          message: `📁 Using stored vault path: ${vaultPath}`
         });
-        // Store for future use
-        await vaultDetector.storeVaultPath(vaultPath);
       } else {
+        // Auto-detect vault
         logJsonError({
-          level: "warn",
-          message: "⚠️ Could not auto-detect vault. Using default location."
+          level: "info",
+          message: "🔍 Auto-detecting Obsidian vault location..."
         });
-        vaultPath = argVaultPath;
+
+        const detectedPath = await vaultDetector.autoDetectVault();
+
+        if (detectedPath && registeredVaults.length > 0) {
+          vaultPath = detectedPath;
+          logJsonError({
+            level: "info",
+            message: `✅ Using the vault last opened in Obsidian: ${vaultPath}`,
+            registered_vaults: registeredVaults.map((vault) => vault.path),
+          });
+        } else if (detectedPath) {
+          vaultPath = detectedPath;
+          logJsonError({
+            level: "info",
+            message: `✅ Found vault at: ${vaultPath}`
+          });
+          // Store for future use
+          await vaultDetector.storeVaultPath(vaultPath);
+        } else {
+          logJsonError({
+            level: "warn",
+            message: "⚠️ Could not auto-detect vault. Using default location."
+          });
+          vaultPath = argVaultPath;
+        }
       }
     }
+
+    vaultConfigs = [{ name: path.basename(path.resolve(vaultPath)), path: vaultPath }];
   }
 
   if (debug) {
@@ -411,719 +718,2583 @@ async function main() {
       level: "debug",
       message: "debug mode enabled",
     });
-    logJsonError({
-      level: "debug",
-      message: `connecting to obsidian api at ${host}:${port}`,
-      host,
-      port,
-    });
   }
 
-  const obsidian = new Obsidian({
-    apiKey,
-    protocol: "http",
-    host,
-    port,
-    timeoutMs: timeout,
-    maxRetries: 3,
-    retryDelayMs: 1000,
-  });
-
-  // Initialize filesystem search as fallback
-  const filesystemSearch = new FilesystemSearch(vaultPath);
-  let apiAvailable = false;
-
   logJsonError({
     level: "info",
     message: "starting easy-obsidian-mcp server...",
   });
 
-  // Perform health check only if API key is provided
-  if (apiKey !== 'fallback-no-api') {
-    try {
-      logJsonError({
-        level: "info",
-        message: "performing initial health check...",
-      });
-      const isHealthy = await obsidian.healthCheck();
-      apiAvailable = isHealthy;
-      if (!isHealthy) {
-        logJsonError({
-          level: "warn",
-          message: "⚠️  health check failed - obsidian api may not be accessible",
-        });
-        logJsonError({
-          level: "warn",
-          message:
-            "   ensure obsidian local rest api plugin is installed and running",
-        });
-        logJsonError({
-          level: "warn",
-          message: `   check connection to ${host}:${port}`,
-          host,
-          port,
-        });
-        logJsonError({
-          level: "info",
-          message: "📁 filesystem fallback will be used for search operations",
-          vaultPath,
-        });
-      } else {
-        logJsonError({
-          level: "info",
-          message: "✅ obsidian api connection verified",
-        });
+  // Set up the api client, file access, search index and watcher of one vault.
+  // --apiKey, --host, --port, --protocol and the certificate flags apply to the default
+  // vault unless it sets its own; every obsidian window has its own key and certificate.
+  async function openVault(config: VaultConfig, isDefault: boolean): Promise<VaultContext> {
+    const vaultPath = config.path;
+    const apiKey = config.apiKey ?? (isDefault ? argApiKey : "fallback-no-api");
+    const host = config.host ?? argHost;
+    let port = config.port ?? argPort;
+    const certPath = config.certPath ?? (isDefault ? argCertPath : undefined);
+    const certFingerprint = config.certFingerprint ?? (isDefault ? argCertFingerprint : undefined);
+    const trustSelfSigned = config.trustSelfSigned ?? (isDefault && argTrustSelfSigned);
+    // Certificate settings only make sense for https
+    let protocol: ObsidianProtocol | undefined =
+      config.protocol ??
+      (isDefault ? argProtocol : undefined) ??
+      (certPath || certFingerprint || trustSelfSigned ? "https" : undefined);
+
+    if (apiKey !== "fallback-no-api") {
+      const endpoint = await detectObsidianConfig({ host, protocol, port });
+      protocol = endpoint.protocol;
+      port = endpoint.port;
+    }
+
+    const tls: ObsidianTlsOptions = { fingerprint: certFingerprint, trustSelfSigned };
+    if (certPath) {
+      try {
+        tls.ca = await fs.readFile(certPath, "utf-8");
+      } catch (error) {
+        throw new Error(`could not read certificate ${certPath} for vault "${config.name}": ${formatError(error)}`);
       }
-    } catch (error) {
+    }
+    if (protocol === "https" && trustSelfSigned) {
       logJsonError({
-        level: "error",
-        message: "❌ initial health check failed:",
-        error: formatError(error),
+        level: "warn",
+        message: "the api certificate is trusted without checking it; pin it with --certPath or --certFingerprint instead",
+        vault: config.name,
       });
+    }
+
+    if (debug) {
       logJsonError({
-        level: "error",
-        message: "   continuing anyway - api might become available later",
+        level: "debug",
+        message: `connecting to obsidian api at ${protocol ?? "http"}://${host}:${port}`,
+        vault: config.name,
+        protocol,
+        host,
+        port,
       });
     }
-  } else {
-    logJsonError({
-      level: "info",
-      message: "🔧 Running in filesystem-only mode (no API key provided)",
-    });
-    logJsonError({
-      level: "info",
-      message: `📁 Using vault at: ${vaultPath}`,
+
+    const obsidian = new Obsidian({
+      apiKey,
+      protocol,
+      host,
+      port,
+      timeoutMs: timeout,
+      maxRetries: 3,
+      retryDelayMs: 1000,
+      tls,
     });
-    apiAvailable = false;
-  }
 
-  // --- Tool Definitions ---
-  server.tool(
-    "obsidian_simple_search",
-    "simple search for documents matching a specified text query across all files in the vault. use this tool when you want to do a simple text search",
-    simpleSearchSchema.shape,
-    async (args) => {
-      const startTime = performance.now();
-      const queryId = `search-${Date.now()}-${Math.random()
-        .toString(36)
-        .substring(7)}`;
+    // Excluded files and the link format come from the vault's own settings
+    const settings = await loadVaultSettings(vaultPath);
+    if (settings.userIgnoreFilters.length > 0) {
       logJsonError({
         level: "info",
-        message: `[mcp] ${queryId} simple search requested`,
-        query: args.query,
-        context_length: args.context_length,
-        max_results: args.max_results,
-        offset: args.offset,
+        message: "excluding files from search and graph as set in obsidian",
+        vault: config.name,
+        filters: settings.userIgnoreFilters,
       });
+    }
 
-      try {
-        // Validate inputs with zod schema
-        const validatedArgs = simpleSearchSchema.parse(args);
+    // Initialize filesystem search and file access as fallback
+    const filesystemSearch = new FilesystemSearch(vaultPath, settings);
+    const filesystemVault = new FilesystemVault(vaultPath);
+    const dataviewEngine = new DataviewEngine(vaultPath, filesystemSearch);
+    let apiAvailable = false;
 
+    // Perform health check only if API key is provided
+    if (apiKey !== 'fallback-no-api') {
+      try {
         logJsonError({
           level: "info",
-          message: `[mcp] ${queryId} executing search with pagination`,
-          context_length: validatedArgs.context_length,
-          max_results: validatedArgs.max_results,
-          offset: validatedArgs.offset,
+          message: "performing initial health check...",
+          vault: config.name,
         });
-
-        // Try API first, fall back to filesystem if unavailable
-        let allResults: any[] = [];
-        let searchMethod = 'api';
-        
-        if (apiAvailable) {
-          try {
-            allResults = await obsidian.search(
-              validatedArgs.query,
-              validatedArgs.context_length
-            );
-          } catch (apiError) {
-            logJsonError({
-              level: "warn",
-              message: "API search failed, falling back to filesystem search",
-              error: formatError(apiError)
-            });
-            apiAvailable = false;
-          }
-        }
-        
-        // Fallback to filesystem search
-        if (!apiAvailable || allResults.length === 0) {
-          searchMethod = 'filesystem';
-          const fsResults = await filesystemSearch.search({
+        const isHealthy = await obsidian.healthCheck();
+        apiAvailable = isHealthy;
+        if (!isHealthy) {
+          logJsonError({
+            level: "warn",
+            message: "⚠️  health check failed - obsidian api may not be accessible",
+            vault: config.name,
+          });
+          logJsonError({
+            level: "warn",
+            message:
+              "   ensure obsidian local rest api plugin is installed and running",
+          });
+          logJsonError({
+            level: "warn",
+            message: `   check connection to ${protocol}://${host}:${port}`,
+            protocol,
+            host,
+            port,
+          });
+          logJsonError({
+            level: "info",
+            message: "📁 filesystem fallback will be used for search operations",
             vaultPath,
-            query: validatedArgs.query,
-            maxResults: 100, // Get more for pagination
-            contextLines: Math.floor(validatedArgs.context_length / 50),
-            searchType: 'content'
           });
-          
-          // Convert filesystem results to API format
-          allResults = fsResults.map(r => ({
-            filename: r.path,
-            score: r.matches.length,
-            matches: r.matches.map(m => ({
-              context: m.context || m.content,
-              match: {
-                start: 0,
-                end: m.content.length
-              }
-            }))
-          }));
-        }
-        
-        // Apply pagination
-        const paginatedResults = allResults.slice(
-          validatedArgs.offset,
-          validatedArgs.offset + validatedArgs.max_results
-        );
-        
-        const endTime = performance.now();
-        const duration = endTime - startTime;
-
-        logJsonError({
-          level: "info",
-          message: `[mcp] ${queryId} search completed`,
-          durationMs: parseFloat(duration.toFixed(2)),
-          totalResultCount: allResults.length,
-          returnedResultCount: paginatedResults.length,
-          offset: validatedArgs.offset,
-        });
-
-        // Generate suggestions for better LLM responses
-        const suggestions = generateSearchSuggestions(
-          validatedArgs.query,
-          allResults.length
-        );
-
-        // Enhanced response structure for LLMs with pagination info
-        const response = {
-          success: true,
-          request_id: queryId,
-          query: validatedArgs.query,
-          original_query: args.query,
-          total_results: allResults.length,
-          returned_results: paginatedResults.length,
-          offset: validatedArgs.offset,
-          max_results: validatedArgs.max_results,
-          has_more: (validatedArgs.offset + validatedArgs.max_results) < allResults.length,
-          search_duration_ms: duration,
-          context_length: validatedArgs.context_length,
-          results: paginatedResults,
-          ...(suggestions.length > 0 && { suggestions }),
-          pagination_hint: allResults.length > validatedArgs.max_results 
-            ? `Showing results ${validatedArgs.offset + 1}-${Math.min(validatedArgs.offset + validatedArgs.max_results, allResults.length)} of ${allResults.length}. Use offset parameter to see more.`
-            : undefined,
-          meta: {
-            timestamp: new Date().toISOString(),
-            search_type: "simple_text",
-            search_method: searchMethod,
-            vault_info: searchMethod === 'filesystem' 
-              ? "filesystem search (API unavailable)" 
-              : "content search across all files",
-          },
-        };
-
-        if (allResults.length === 0) {
+        } else {
           logJsonError({
-            level: "error",
-            message: "obsidian_simple_search no results found for",
-            queryId,
-            query: validatedArgs.query,
+            level: "info",
+            message: "✅ obsidian api connection verified",
+            vault: config.name,
           });
-          response.meta.vault_info += " - no matching content found";
         }
-
-        return {
-          content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
-        };
       } catch (error) {
-        const endTime = performance.now();
-        const duration = endTime - startTime;
-        const errorMessage = formatError(error);
         logJsonError({
           level: "error",
-          message: `[mcp] ${queryId} search failed`,
-          error: errorMessage,
-          query: args.query,
-          durationMs: parseFloat(duration.toFixed(2)),
+          message: "❌ initial health check failed:",
+          vault: config.name,
+          error: formatError(error),
+        });
+        logJsonError({
+          level: "error",
+          message: "   continuing anyway - api might become available later",
         });
-
-        // Generate error-specific suggestions
-        const suggestions = generateSearchSuggestions(args.query, 0);
-
-        const errorResponse = {
-          success: false,
-          request_id: queryId,
-          error: "search_failed",
-          message: errorMessage,
-          query: args.query,
-          duration_ms: duration,
-          suggestions,
-          troubleshooting: [
-            "check if obsidian local rest api plugin is running",
-            "verify api key is correct",
-            "ensure obsidian is open with plugin active",
-            `confirm api is accessible at ${host}:${port}`,
-            "try restarting obsidian and the plugin",
-          ],
-          syntax_help:
-            "see https://blacksmithgu.github.io/obsidian-dataview/ for query syntax",
-          meta: {
-            timestamp: new Date().toISOString(),
-            connection_status: obsidian.getStatus(),
-          },
-        };
-
-        return {
-          content: [
-            { type: "text", text: JSON.stringify(errorResponse, null, 2) },
-          ],
-          isError: true,
-        };
       }
-    }
-  );
-
-  server.tool(
-    "obsidian_dataview_search",
-    `execute a dataview query language (dql) query. 
-
-dql is a powerful, sql-like language for querying obsidian notes based on metadata (frontmatter, inline fields), tags, folders, links, file properties (name, path, dates), and tasks. use it to filter, sort, group, and transform data from your obsidian vault.
-
-**key difference from sql:** dql executes queries sequentially, line by line, passing results between commands. this allows multiple 'where', 'sort', or 'group by' steps, unlike declarative sql.
-
-**finding people/names:**
-- search note titles: 'table file.name where contains(file.name, "ben")'
-- find notes linking to person: 'list from [[Ben]]'
-- search by person tag: 'list from #person/ben'
-
-**common patterns:**
-- get note metadata: 'table file.name, file.mtime from "NOTENAME"'
-- search by tag: 'list from #tag' 
-- folder search: 'list from "folder/"'
-- backlinks: 'list from [[FILENAME]]'
-- all notes: 'list from ""'
-
-this tool is especially good at finding relationships between notes, metadata searches, and structured queries. use it when simple text search doesn't find what you need.
-
-see dataview documentation for full syntax: https://blacksmithgu.github.io/obsidian-dataview/`,
-    dataviewSearchSchema.shape,
-    async (args) => {
-      const startTime = performance.now();
-      const queryId = `dataview-${Date.now()}-${Math.random()
-        .toString(36)
-        .substring(7)}`;
+    } else {
+      logJsonError({
+        level: "info",
+        message: "🔧 Running in filesystem-only mode (no API key provided)",
+        vault: config.name,
+      });
       logJsonError({
         level: "info",
-        message: `[mcp] ${queryId} dataview query requested`,
-        query: args.query,
+        message: `📁 Using vault at: ${vaultPath}`,
+        vault: config.name,
       });
+      apiAvailable = false;
+    }
 
+    // Watch the vault so the index and link graph follow edits made in obsidian or elsewhere
+    const vaultWatcher = new VaultWatcher(vaultPath, { pollIntervalMs: pollInterval });
+    vaultWatcher.onChange((changes) => filesystemSearch.applyChanges(changes));
+    if (watch) {
       try {
-        // Validate inputs with zod schema
-        const validatedArgs = dataviewSearchSchema.parse(args);
-
-        // Convert LIST/TASK queries to TABLE format for API compatibility
-        const { converted: convertedQuery, originalType } = convertToTableQuery(validatedArgs.query);
-        
+        const mode = await vaultWatcher.start();
+        filesystemSearch.setLiveUpdates(true);
         logJsonError({
           level: "info",
-          message: `[mcp] ${queryId} executing dataview query`,
-          originalQuery: validatedArgs.query,
-          convertedQuery: convertedQuery,
-          queryType: originalType,
+          message: "watching vault for changes",
+          vault: config.name,
+          mode,
         });
-
-        const results = await obsidian.searchDataview(convertedQuery);
-        const endTime = performance.now();
-        const duration = endTime - startTime;
+      } catch (error) {
         logJsonError({
-          level: "info",
-          message: `[mcp] ${queryId} dataview query completed`,
-          durationMs: parseFloat(duration.toFixed(2)),
-          resultCount: results.length,
+          level: "warn",
+          message: "vault watching unavailable, the index will be refreshed on search",
+          vault: config.name,
+          error: formatError(error),
         });
+      }
+    }
 
-        // Generate suggestions for better LLM responses
-        const suggestions = generateDataviewSuggestions(validatedArgs.query);
+    // Build or catch up the persistent search index without delaying startup
+    filesystemSearch
+      .refreshIndex(true)
+      .then((status) => {
+        logJsonError({
+          level: "info",
+          message: "search index ready",
+          vault: config.name,
+          indexedNotes: status.indexed_notes,
+          changes: status.last_refresh_changes,
+          durationMs: status.last_refresh_duration_ms,
+          indexFile: status.index_file,
+        });
+      })
+      .catch((error) => {
+        logJsonError({
+          level: "warn",
+          message: "search index could not be built, it will be retried on the next search",
+          vault: config.name,
+          error: formatError(error),
+        });
+      });
 
-        // Enhanced response structure for LLMs
-        const response = {
-          success: true,
-          request_id: queryId,
-          query: convertedQuery,
-          original_query: validatedArgs.query,
-          query_type: originalType,
-          ...(originalType !== 'table' && { 
-            conversion_note: `Original ${originalType.toUpperCase()} query converted to TABLE format for API compatibility` 
-          }),
-          results_count: results.length,
-          query_duration_ms: duration,
-          results: results,
-          ...(suggestions.length > 0 && { suggestions }),
-          meta: {
-            timestamp: new Date().toISOString(),
-            search_type: "dataview_dql",
-            vault_info: "metadata and structural search",
-            query_hints: [
-              "dataview searches metadata, links, and file properties",
-              "use 'from' clauses to specify scope",
-              "combine with 'where' for filtering",
-              "LIST and TASK queries are automatically converted to TABLE format",
+    return {
+      name: config.name,
+      path: vaultPath,
+      hasApi: apiKey !== "fallback-no-api",
+      apiAvailable,
+      settings,
+      obsidian,
+      filesystemSearch,
+      filesystemVault,
+      dataviewEngine,
+      vaultWatcher,
+      noteMover: new NoteMover(filesystemVault, filesystemSearch, settings.newLinkFormat),
+    };
+  }
+
+  const openedVaults: VaultContext[] = [];
+  for (const [i, config] of vaultConfigs.entries()) {
+    openedVaults.push(await openVault(config, i === 0));
+  }
+  const vaults = new VaultRegistry(openedVaults);
+
+  // Api address of the vault a tool call names, for troubleshooting hints
+  function apiAddress(name?: string): string {
+    const connection = vaults.find(name)?.obsidian.getStatus().connection;
+    return connection ? `${connection.protocol}://${connection.host}:${connection.port}` : argHost;
+  }
+  // --- Server Definition ---
+  // Tools, resources and prompts, registered on a new server for each connection.
+  // All of them share the api client, index and watcher set up above.
+  function createServer(): McpServer {
+    const server = createMcpServer(
+      vaults
+        .list()
+        .filter((vault) => vault.hasApi)
+        .map((vault) =>
+          vaults.list().length > 1 ? `${apiAddress(vault.name)} (${vault.name})` : apiAddress(vault.name)
+        )
+    );
+
+    // --- Tool Definitions ---
+    server.tool(
+      "obsidian_simple_search",
+      "simple search for documents matching a specified text query across all files in the vault. use this tool when you want to do a simple text search",
+      simpleSearchSchema.shape,
+      async (args) => {
+        const startTime = performance.now();
+        const queryId = `search-${Date.now()}-${Math.random()
+        .toString(36)
+        .substring(7)}`;
+        logJsonError({
+          level: "info",
+          message: `[mcp] ${queryId} simple search requested`,
+          query: args.query,
+          context_length: args.context_length,
+          max_results: args.max_results,
+          offset: args.offset,
+        });
+
+        try {
+          // Validate inputs with zod schema
+          const validatedArgs = simpleSearchSchema.parse(args);
+
+          logJsonError({
+            level: "info",
+            message: `[mcp] ${queryId} executing search with pagination`,
+            context_length: validatedArgs.context_length,
+            max_results: validatedArgs.max_results,
+            offset: validatedArgs.offset,
+          });
+
+          // Operators, phrases and qualifiers are evaluated locally; the api only understands plain words
+          const plainText = isPlainTextQuery(parseSearchQuery(validatedArgs.query));
+
+          // Try API first, fall back to filesystem if unavailable
+          const searchVault = async (vault: VaultContext) => {
+            const { obsidian, filesystemSearch } = vault;
+            let results: any[] = [];
+            let searchMethod = 'api';
+            let scoreMethod = 'bm25';
+
+            if (vault.apiAvailable && plainText) {
+              try {
+                results = await obsidian.search(
+                  validatedArgs.query,
+                  validatedArgs.context_length
+                );
+              } catch (apiError) {
+                logJsonError({
+                  level: "warn",
+                  message: "API search failed, falling back to filesystem search",
+                  vault: vault.name,
+                  error: formatError(apiError)
+                });
+                vault.apiAvailable = false;
+              }
+            }
+
+            // Fallback to filesystem search
+            if (!vault.apiAvailable || !plainText || results.length === 0) {
+              searchMethod = 'filesystem';
+              const fsResults = await filesystemSearch.search({
+                vaultPath: vault.path,
+                query: validatedArgs.query,
+                maxResults: Infinity, // Ranked in full, paginated below
+                contextLines: Math.floor(validatedArgs.context_length / 50),
+                searchType: 'content'
+              });
+
+              // Convert filesystem results to API format
+              results = fsResults.map(r => ({
+                filename: r.path,
+                score: r.score ?? 0,
+                matches: r.matches.map(m => ({
+                  context: m.context || m.content,
+                  match: {
+                    start: 0,
+                    end: m.content.length
+                  }
+                }))
+              }));
+            } else {
+              // Re-rank api results with the same BM25 scoring so scores mean the same either way
+              try {
+                const scores = await filesystemSearch.scoreFiles(
+                  validatedArgs.query,
+                  results.map((r) => r.filename)
+                );
+                results = results
+                  .map((r) => ({ ...r, score: scores.get(r.filename) ?? 0, api_score: r.score }))
+                  .sort((a, b) => b.score - a.score);
+              } catch (rankError) {
+                // Vault files not readable here: keep the api's own order and scores
+                scoreMethod = 'api';
+                logJsonError({
+                  level: "warn",
+                  message: "could not rank api results locally, keeping api scores",
+                  vault: vault.name,
+                  error: formatError(rankError),
+                });
+              }
+            }
+
+            return { vault: vault.name, results, searchMethod, scoreMethod };
+          };
+
+          // One vault, or every vault with the rankings merged by relative score
+          const targets = vaults.select(validatedArgs.vault);
+          const searched = [];
+          for (const vault of targets) {
+            searched.push(await searchVault(vault));
+          }
+          const allResults: any[] = vaults.list().length > 1
+            ? mergeRankedResults(searched, (r) => r.score)
+            : searched[0].results;
+          const searchMethod = sameOrMixed(searched.map((s) => s.searchMethod));
+          const scoreMethod = sameOrMixed(searched.map((s) => s.scoreMethod));
+
+          // Apply pagination
+          const paginatedResults = allResults.slice(
+            validatedArgs.offset,
+            validatedArgs.offset + validatedArgs.max_results
+          );
+          
+          const endTime = performance.now();
+          const duration = endTime - startTime;
+
+          logJsonError({
+            level: "info",
+            message: `[mcp] ${queryId} search completed`,
+            durationMs: parseFloat(duration.toFixed(2)),
+            totalResultCount: allResults.length,
+            returnedResultCount: paginatedResults.length,
+            offset: validatedArgs.offset,
+          });
+
+          // Generate suggestions for better LLM responses
+          const suggestions = generateSearchSuggestions(
+            validatedArgs.query,
+            allResults.length
+          );
+
+          // Enhanced response structure for LLMs with pagination info
+          const response = {
+            success: true,
+            request_id: queryId,
+            query: validatedArgs.query,
+            original_query: args.query,
+            total_results: allResults.length,
+            returned_results: paginatedResults.length,
+            offset: validatedArgs.offset,
+            max_results: validatedArgs.max_results,
+            has_more: (validatedArgs.offset + validatedArgs.max_results) < allResults.length,
+            search_duration_ms: duration,
+            context_length: validatedArgs.context_length,
+            results: paginatedResults,
+            ...(suggestions.length > 0 && { suggestions }),
+            pagination_hint: allResults.length > validatedArgs.max_results 
+              ? `Showing results ${validatedArgs.offset + 1}-${Math.min(validatedArgs.offset + validatedArgs.max_results, allResults.length)} of ${allResults.length}. Use offset parameter to see more.`
+              : undefined,
+            meta: {
+              timestamp: new Date().toISOString(),
+              search_type: "simple_text",
+              search_method: searchMethod,
+              score_method: scoreMethod,
+              query_syntax: plainText ? "plain" : "structured",
+              vault_info: searchMethod === 'filesystem' 
+                ? plainText
+                  ? "filesystem search (API unavailable)"
+                  : "filesystem search (query evaluated locally)"
+                : "content search across all files",
+              ...(searchMethod === 'filesystem' && targets.length === 1 && {
+                index_status: targets[0].filesystemSearch.getIndexStatus(),
+              }),
+              ...(targets.length > 1 && {
+                vaults: searched.map((s) => ({
+                  name: s.vault,
+                  search_method: s.searchMethod,
+                  total_results: s.results.length,
+                })),
+              }),
+            },
+          };
+
+          if (allResults.length === 0) {
+            logJsonError({
+              level: "error",
+              message: "obsidian_simple_search no results found for",
+              queryId,
+              query: validatedArgs.query,
+            });
+            response.meta.vault_info += " - no matching content found";
+          }
+
+          return {
+            content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
+          };
+        } catch (error) {
+          const endTime = performance.now();
+          const duration = endTime - startTime;
+          const errorMessage = formatError(error);
+          logJsonError({
+            level: "error",
+            message: `[mcp] ${queryId} search failed`,
+            error: errorMessage,
+            query: args.query,
+            durationMs: parseFloat(duration.toFixed(2)),
+          });
+
+          // Generate error-specific suggestions
+          const suggestions = generateSearchSuggestions(args.query, 0);
+
+          const errorResponse = {
+            success: false,
+            request_id: queryId,
+            error: "search_failed",
+            message: errorMessage,
+            query: args.query,
+            duration_ms: duration,
+            suggestions,
+            troubleshooting: [
+              "check if obsidian local rest api plugin is running",
+              "verify api key is correct",
+              "ensure obsidian is open with plugin active",
+              `confirm api is accessible at ${apiAddress(args.vault)}`,
+              "try restarting obsidian and the plugin",
             ],
-          },
-        };
+            syntax_help:
+              "see https://blacksmithgu.github.io/obsidian-dataview/ for query syntax",
+            meta: {
+              timestamp: new Date().toISOString(),
+              connection_status: vaults.find(args.vault)?.obsidian.getStatus(),
+            },
+          };
+
+          return {
+            content: [
+              { type: "text", text: JSON.stringify(errorResponse, null, 2) },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    server.tool(
+      "obsidian_dataview_search",
+      `execute a dataview query language (dql) query. 
+
+dql is a powerful, sql-like language for querying obsidian notes based on metadata (frontmatter, inline fields), tags, folders, links, file properties (name, path, dates), and tasks. use it to filter, sort, group, and transform data from your obsidian vault.
+
+**key difference from sql:** dql executes queries sequentially, line by line, passing results between commands. this allows multiple 'where', 'sort', or 'group by' steps, unlike declarative sql.
+
+**finding people/names:**
+- search note titles: 'table file.name where contains(file.name, "ben")'
+- find notes linking to person: 'list from [[Ben]]'
+- search by person tag: 'list from #person/ben'
+
+**common patterns:**
+- get note metadata: 'table file.name, file.mtime from "NOTENAME"'
+- search by tag: 'list from #tag' 
+- folder search: 'list from "folder/"'
+- backlinks: 'list from [[FILENAME]]'
+- all notes: 'list from ""'
+
+this tool is especially good at finding relationships between notes, metadata searches, and structured queries. use it when simple text search doesn't find what you need.
+
+see dataview documentation for full syntax: https://blacksmithgu.github.io/obsidian-dataview/`,
+      dataviewSearchSchema.shape,
+      async (args) => {
+        const startTime = performance.now();
+        const queryId = `dataview-${Date.now()}-${Math.random()
+        .toString(36)
+        .substring(7)}`;
+        logJsonError({
+          level: "info",
+          message: `[mcp] ${queryId} dataview query requested`,
+          query: args.query,
+        });
+
+        try {
+          // Validate inputs with zod schema
+          const validatedArgs = dataviewSearchSchema.parse(args);
+          const vault = vaults.get(validatedArgs.vault);
+          const { obsidian, dataviewEngine } = vault;
+
+          // Convert LIST/TASK queries to TABLE format for API compatibility
+          const { converted, originalType } = convertToTableQuery(validatedArgs.query);
+          let convertedQuery = converted;
+          
+          logJsonError({
+            level: "info",
+            message: `[mcp] ${queryId} executing dataview query`,
+            originalQuery: validatedArgs.query,
+            convertedQuery: convertedQuery,
+            queryType: originalType,
+          });
+
+          // Try API first; the local engine also covers a missing dataview plugin
+          let results: Array<{ filename: string; result?: any }> | null = null;
+          let searchMethod = "api";
+          if (vault.apiAvailable) {
+            try {
+              results = await obsidian.searchDataview(convertedQuery);
+            } catch (apiError) {
+              logJsonError({
+                level: "warn",
+                message: "API dataview query failed, falling back to local dataview engine",
+                error: formatError(apiError),
+              });
+              if (isConnectionError(apiError)) vault.apiAvailable = false;
+            }
+          }
+          if (results === null) {
+            // The local engine answers LIST and TASK natively, so no conversion is needed
+            searchMethod = "filesystem";
+            convertedQuery = validatedArgs.query;
+            results = await dataviewEngine.query(validatedArgs.query);
+          }
+
+          const endTime = performance.now();
+          const duration = endTime - startTime;
+          logJsonError({
+            level: "info",
+            message: `[mcp] ${queryId} dataview query completed`,
+            durationMs: parseFloat(duration.toFixed(2)),
+            resultCount: results.length,
+            searchMethod,
+          });
+
+          // Generate suggestions for better LLM responses
+          const suggestions = generateDataviewSuggestions(validatedArgs.query);
+
+          // Enhanced response structure for LLMs
+          const response = {
+            success: true,
+            request_id: queryId,
+            query: convertedQuery,
+            original_query: validatedArgs.query,
+            query_type: originalType,
+            ...(originalType !== 'table' && searchMethod === 'api' && { 
+              conversion_note: `Original ${originalType.toUpperCase()} query converted to TABLE format for API compatibility` 
+            }),
+            results_count: results.length,
+            query_duration_ms: duration,
+            results: results,
+            ...(suggestions.length > 0 && { suggestions }),
+            meta: {
+              timestamp: new Date().toISOString(),
+              search_type: "dataview_dql",
+              search_method: searchMethod,
+              vault_info: searchMethod === "filesystem"
+                ? "metadata and structural search (local dataview engine)"
+                : "metadata and structural search",
+              query_hints: [
+                "dataview searches metadata, links, and file properties",
+                "use 'from' clauses to specify scope",
+                "combine with 'where' for filtering",
+                searchMethod === "filesystem"
+                  ? "the local engine supports TABLE, LIST and TASK with FROM, WHERE, SORT, GROUP BY, FLATTEN and LIMIT"
+                  : "LIST and TASK queries are automatically converted to TABLE format",
+              ],
+            },
+          };
+
+          if (results.length === 0) {
+            logJsonError({
+              level: "error",
+              message:
+                "obsidian_dataview_search no results found for dataview query",
+              queryId,
+              query: validatedArgs.query,
+            });
+            response.meta.vault_info += " - no matching metadata/structure found";
+          }
+
+          return {
+            content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
+          };
+        } catch (error) {
+          const endTime = performance.now();
+          const duration = endTime - startTime;
+          const errorMessage = formatError(error);
+          logJsonError({
+            level: "error",
+            message: `[mcp] ${queryId} dataview query failed`,
+            error: errorMessage,
+            query: args.query,
+            durationMs: parseFloat(duration.toFixed(2)),
+          });
+
+          // Generate error-specific suggestions
+          const suggestions = generateDataviewSuggestions(
+            args.query,
+            errorMessage
+          );
+
+          const errorResponse = {
+            success: false,
+            request_id: queryId,
+            error: "dataview_query_failed",
+            message: errorMessage,
+            query: args.query,
+            duration_ms: duration,
+            suggestions,
+            troubleshooting: [
+              "check dataview query syntax",
+              "ensure dataview plugin is installed in obsidian",
+              "verify obsidian local rest api plugin supports dataview",
+              "confirm api key has necessary permissions",
+              `check api accessibility at ${apiAddress(args.vault)}`,
+              "try a simpler query first: 'list from \"\"'",
+              "without the api, queries run on a local engine that supports a dql subset (no CALENDAR, lambdas or dataviewjs)",
+            ],
+            syntax_help:
+              "see https://blacksmithgu.github.io/obsidian-dataview/ for query syntax",
+            meta: {
+              timestamp: new Date().toISOString(),
+              connection_status: vaults.find(args.vault)?.obsidian.getStatus(),
+            },
+          };
+
+          return {
+            content: [
+              { type: "text", text: JSON.stringify(errorResponse, null, 2) },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    server.tool(
+      "obsidian_get_file_content",
+      "retrieves the full content of a specific file from the obsidian vault.",
+      getFileContentToolSchema.shape,
+      async (args) => {
+        const startTime = performance.now();
+        const queryId = `get-content-${Date.now()}-${Math.random()
+        .toString(36)
+        .substring(7)}`;
+        logJsonError({
+          level: "info",
+          message: `[mcp] ${queryId} get_file_content requested`,
+          filepath: args.filepath,
+        });
+        try {
+          const validatedArgs = getFileContentToolSchema.parse(args);
+          const vault = vaults.get(validatedArgs.vault);
+          const { obsidian, filesystemVault } = vault;
+
+          // Try API first, read from the vault directory if it is unavailable
+          let content: string | null = null;
+          let readMethod = "api";
+          if (vault.apiAvailable) {
+            try {
+              content = await obsidian.getFileContent(validatedArgs.filepath);
+            } catch (apiError) {
+              if (!isConnectionError(apiError)) throw apiError;
+              logJsonError({
+                level: "warn",
+                message: "API read failed, falling back to filesystem",
+                error: formatError(apiError),
+              });
+              vault.apiAvailable = false;
+            }
+          }
+          if (content === null) {
+            readMethod = "filesystem";
+            content = await filesystemVault.readNote(validatedArgs.filepath.trim());
+          }
+
+          const endTime = performance.now();
+          const duration = endTime - startTime;
+          logJsonError({
+            level: "info",
+            message: `[mcp] ${queryId} successfully fetched file content`,
+            durationMs: parseFloat(duration.toFixed(2)),
+            contentLength: content.length,
+            readMethod,
+          });
+
+          // --- Parse image references in markdown content ---
+          const noteDir = path.posix.dirname(validatedArgs.filepath);
+
+          const markdownImageRegex = /!\[[^\]]*\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g; // ![alt](path "title")
+          const wikilinkImageRegex = /!\[\[([^\]|]+)(?:\|[^\]]+)?\]\]/g; // ![[path|size]]
+          const htmlImgRegex = /<img\s+[^>]*src=["']([^"']+)["'][^>]*>/gi; // <img src="path">
+
+          const extractImageTargets = (markdown: string): string[] => {
+            const targets: string[] = [];
+            const add = (u: string) => {
+              if (u && !targets.includes(u)) targets.push(u);
+            };
+            let m: RegExpExecArray | null;
+            while ((m = markdownImageRegex.exec(markdown)) !== null) add(m[1]);
+            while ((m = wikilinkImageRegex.exec(markdown)) !== null) add(m[1]);
+            while ((m = htmlImgRegex.exec(markdown)) !== null) add(m[1]);
+            return targets;
+          };
+
+          const isHttpUrl = (u: string) => /^https?:\/\//i.test(u);
+          const isDataUri = (u: string) => /^data:/i.test(u);
+          const parseDataUri = (
+            u: string
+          ): { mimeType: string; base64Data: string } | null => {
+            const match = /^data:([^;]+);base64,(.*)$/i.exec(u);
+            if (!match) return null;
+            return { mimeType: match[1], base64Data: match[2] };
+          };
+
+          const normalizeVaultPath = (p: string): string => {
+            const norm = path.posix.normalize(p).replace(/^\/+/, "");
+            return norm;
+          };
+
+          const candidatePathsFor = (
+            noteDirectory: string,
+            ref: string
+          ): string[] => {
+            const cleanRef = ref.replace(/^\.\//, "");
+            const candidates: string[] = [];
+            if (cleanRef.startsWith("/")) {
+              candidates.push(normalizeVaultPath(cleanRef));
+            } else {
+              candidates.push(
+                normalizeVaultPath(path.posix.join(noteDirectory, cleanRef))
+              );
+              candidates.push(normalizeVaultPath(cleanRef));
+            }
+            return Array.from(new Set(candidates));
+          };
+
+          /*
+           * IMAGE PROCESSING DISABLED - Known Issue (2025-01-10)
+           * 
+           * There's a compatibility issue between the MCP SDK image format and Claude's expected format.
+           * The MCP SDK expects { type: "image", data: string, mimeType: string }
+           * But Claude's API validation expects a different format with source.base64.media_type structure.
+           * 
+           * Attempts to fix:
+           * 1. Tried using Anthropic's format directly - rejected by MCP SDK validation
+           * 2. Tried normalizing MIME types - still getting "Could not process image" error
+           * 3. Added extensive error handling and validation - images still fail
+           * 
+           * The issue appears to be in the translation layer between MCP SDK and Claude's API.
+           * Disabling image processing until this is resolved upstream.
+           * 
+           * To re-enable: Uncomment the code below and test with various image formats.
+           */
+          
+          // TEMPORARILY DISABLED - See comment above
+          const refs = []; // extractImageTargets(content);
+          const imageContents: any[] = [];
+
+          // IMAGE PROCESSING CODE DISABLED - loops over refs array which is now empty
+          // Original code preserved below for when issue is fixed
+          
+          /*
+          for (const ref of refs) {
+            // ... [Full image processing logic commented out]
+          }
+          */
+          
+          return {
+            content: [{ type: "text", text: content }], // Removed ...imageContents since images are disabled
+          };
+        } catch (error) {
+          const endTime = performance.now();
+          const duration = endTime - startTime;
+          const errorMessage = formatError(error);
+          logJsonError({
+            level: "error",
+            message: `[mcp] ${queryId} get_file_content failed`,
+            error: errorMessage,
+            filepath: args.filepath,
+            durationMs: parseFloat(duration.toFixed(2)),
+          });
+
+          const errorResponse = {
+            success: false,
+            request_id: queryId,
+            error: "get_file_content_failed",
+            message: errorMessage,
+            filepath: args.filepath,
+            duration_ms: parseFloat(duration.toFixed(2)),
+            troubleshooting: [
+              "check if the file path is correct and exists in the vault",
+              "verify obsidian local rest api plugin is running",
+              "ensure api key has permissions to read files",
+            ],
+            meta: {
+              timestamp: new Date().toISOString(),
+              connection_status: vaults.find(args.vault)?.obsidian.getStatus(),
+            },
+          };
+          return {
+            content: [
+              { type: "text", text: JSON.stringify(errorResponse, null, 2) },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    server.tool(
+      "obsidian_list_files",
+      "lists files and folders within a specified directory in the obsidian vault. if no directory is specified, lists items in the vault root.",
+      listFilesToolSchema.shape,
+      async (args) => {
+        const startTime = performance.now();
+        const queryId = `list-files-${Date.now()}-${Math.random()
+        .toString(36)
+        .substring(7)}`;
+        const dirPath = args.directory_path || "<vault_root>";
+        logJsonError({
+          level: "info",
+          message: `[mcp] ${queryId} list_files requested`,
+          directory_path: dirPath,
+        });
+        try {
+          const validatedArgs = listFilesToolSchema.parse(args);
+          const vault = vaults.get(validatedArgs.vault);
+          const { obsidian, filesystemVault } = vault;
+
+          // Try API first, list the vault directory if it is unavailable
+          let allFiles: VaultFileListItem[] | null = null;
+          let listMethod = "api";
+          if (vault.apiAvailable) {
+            try {
+              allFiles = await obsidian.listFiles(validatedArgs.directory_path);
+            } catch (apiError) {
+              if (!isConnectionError(apiError)) throw apiError;
+              logJsonError({
+                level: "warn",
+                message: "API listing failed, falling back to filesystem",
+                error: formatError(apiError),
+              });
+              vault.apiAvailable = false;
+            }
+          }
+          if (allFiles === null) {
+            listMethod = "filesystem";
+            allFiles = await filesystemVault.listFiles(validatedArgs.directory_path);
+          } else {
+            // The api does not report dates or sizes; fill them in from the vault directory when it is readable
+            allFiles = await Promise.all(
+              allFiles.map(async (item) => {
+                const stats = await filesystemVault.statFile(item.path).catch(() => null);
+                if (!stats) return item;
+                return {
+                  ...item,
+                  created: stats.created,
+                  modified: stats.modified,
+                  size: item.type === "file" ? stats.size : undefined,
+                };
+              })
+            );
+          }
+          
+          // Sort the files based on criteria
+          let sortedFiles = [...allFiles];
+          switch (validatedArgs.sort_by) {
+            case 'name':
+              sortedFiles.sort((a, b) => a.filename.localeCompare(b.filename));
+              break;
+            case 'modified':
+              sortedFiles.sort((a, b) => (b.modified || 0) - (a.modified || 0));
+              break;
+            case 'created':
+              sortedFiles.sort((a, b) => (b.created || 0) - (a.created || 0));
+              break;
+            case 'size':
+              sortedFiles.sort((a, b) => (b.size || 0) - (a.size || 0));
+              break;
+          }
+          
+          // Apply sort order
+          if (validatedArgs.sort_order === 'desc' && validatedArgs.sort_by === 'name') {
+            sortedFiles.reverse();
+          } else if (validatedArgs.sort_order === 'asc' && validatedArgs.sort_by !== 'name') {
+            sortedFiles.reverse();
+          }
+          
+          // Apply pagination
+          const paginatedFiles = sortedFiles.slice(
+            validatedArgs.offset,
+            validatedArgs.offset + validatedArgs.max_items
+          );
+          
+          const endTime = performance.now();
+          const duration = endTime - startTime;
+          logJsonError({
+            level: "info",
+            message: `[mcp] ${queryId} successfully listed items`,
+            total_items: allFiles.length,
+            returned_items: paginatedFiles.length,
+            offset: validatedArgs.offset,
+            durationMs: parseFloat(duration.toFixed(2)),
+          });
+
+          const response = {
+            success: true,
+            request_id: queryId,
+            directory_path: validatedArgs.directory_path || "/", // Represent root as /
+            total_items: allFiles.length,
+            returned_items: paginatedFiles.length,
+            offset: validatedArgs.offset,
+            max_items: validatedArgs.max_items,
+            has_more: (validatedArgs.offset + validatedArgs.max_items) < allFiles.length,
+            sort_by: validatedArgs.sort_by,
+            sort_order: validatedArgs.sort_order,
+            listing_duration_ms: parseFloat(duration.toFixed(2)),
+            items: paginatedFiles, // Paginated array of file/folder objects
+            ...(allFiles.length > validatedArgs.max_items && {
+              pagination_hint: `Showing items ${validatedArgs.offset + 1}-${Math.min(validatedArgs.offset + validatedArgs.max_items, allFiles.length)} of ${allFiles.length}. Use offset parameter to see more.`
+            }),
+            meta: {
+              timestamp: new Date().toISOString(),
+              operation_type: "list_files",
+              list_method: listMethod,
+            },
+          };
+          return {
+            content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
+          };
+        } catch (error) {
+          const endTime = performance.now();
+          const duration = endTime - startTime;
+          const errorMessage = formatError(error);
+          logJsonError({
+            level: "error",
+            message: `[mcp] ${queryId} list_files failed for "${dirPath}"`,
+            error: errorMessage,
+            durationMs: parseFloat(duration.toFixed(2)),
+          });
+
+          const errorResponse = {
+            success: false,
+            request_id: queryId,
+            error: "list_files_failed",
+            message: errorMessage,
+            directory_path: args.directory_path,
+            duration_ms: parseFloat(duration.toFixed(2)),
+            troubleshooting: [
+              "check if the directory path is correct",
+              "verify obsidian local rest api plugin is running",
+              "ensure api key has permissions to list files",
+            ],
+            meta: {
+              timestamp: new Date().toISOString(),
+              connection_status: vaults.find(args.vault)?.obsidian.getStatus(),
+            },
+          };
+          return {
+            content: [
+              { type: "text", text: JSON.stringify(errorResponse, null, 2) },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // Write through the api when it is reachable, otherwise straight to the vault directory
+    async function writeNote(
+      vault: VaultContext,
+      mode: WriteMode,
+      filepath: string,
+      content: string
+    ): Promise<{ path: string; created: boolean; write_method: string }> {
+      const { obsidian, filesystemVault } = vault;
+      const notePath = normalizeNotePath(filepath);
+
+      if (vault.apiAvailable) {
+        let exists: boolean | null = null;
+        try {
+          exists = await obsidian.fileExists(notePath);
+        } catch (apiError) {
+          if (!isConnectionError(apiError)) throw apiError;
+          logJsonError({
+            level: "warn",
+            message: "API unavailable for write, falling back to filesystem",
+            error: formatError(apiError),
+          });
+          vault.apiAvailable = false;
+        }
+
+        if (exists !== null) {
+          if (mode === "create" && exists) {
+            throw new Error(`note "${notePath}" already exists`);
+          }
+          if (mode === "replace" && !exists) {
+            throw new Error(`note "${notePath}" does not exist`);
+          }
+          if (mode === "append") {
+            await obsidian.appendToFile(notePath, content);
+          } else {
+            await obsidian.putFile(notePath, content);
+          }
+          return { path: notePath, created: !exists, write_method: "api" };
+        }
+      }
+
+      const result =
+        mode === "create"
+          ? await filesystemVault.createNote(notePath, content)
+          : mode === "append"
+          ? await filesystemVault.appendToNote(notePath, content)
+          : await filesystemVault.replaceNote(notePath, content);
+      return { path: result.path, created: result.created, write_method: "filesystem" };
+    }
+
+    const writeTools: Array<{ name: string; mode: WriteMode; description: string }> = [
+      {
+        name: "obsidian_create_note",
+        mode: "create",
+        description:
+          "creates a new note in the obsidian vault with the given markdown content. fails if a note already exists at that path. use this to capture meeting notes, action items or new ideas.",
+      },
+      {
+        name: "obsidian_append_to_note",
+        mode: "append",
+        description:
+          "appends markdown content to the end of a note in the obsidian vault, creating the note if it does not exist. use this to add items to running logs, journals or task lists.",
+      },
+      {
+        name: "obsidian_replace_note",
+        mode: "replace",
+        description:
+          "replaces the full content of an existing note in the obsidian vault. fails if the note does not exist. prefer obsidian_append_to_note when only adding content.",
+      },
+    ];
+
+    for (const writeTool of writeTools) {
+      server.tool(
+        writeTool.name,
+        writeTool.description,
+        writeNoteSchema.shape,
+        async (args) => {
+          const startTime = performance.now();
+          const queryId = `${writeTool.mode}-note-${Date.now()}-${Math.random()
+          .toString(36)
+          .substring(7)}`;
+          logJsonError({
+            level: "info",
+            message: `[mcp] ${queryId} ${writeTool.name} requested`,
+            filepath: args.filepath,
+            contentLength: args.content?.length,
+          });
+
+          try {
+            const validatedArgs = writeNoteSchema.parse(args);
+            const vault = vaults.get(validatedArgs.vault);
+            const result = await writeNote(
+              vault,
+              writeTool.mode,
+              validatedArgs.filepath,
+              validatedArgs.content
+            );
+            vault.filesystemSearch.markIndexStale();
+            const duration = performance.now() - startTime;
+
+            logJsonError({
+              level: "info",
+              message: `[mcp] ${queryId} ${writeTool.name} completed`,
+              path: result.path,
+              writeMethod: result.write_method,
+              durationMs: parseFloat(duration.toFixed(2)),
+            });
+
+            const response = {
+              success: true,
+              request_id: queryId,
+              operation: writeTool.mode,
+              path: result.path,
+              created: result.created,
+              content_length: validatedArgs.content.length,
+              duration_ms: parseFloat(duration.toFixed(2)),
+              meta: {
+                timestamp: new Date().toISOString(),
+                operation_type: writeTool.name.replace(/^obsidian_/, ""),
+                write_method: result.write_method,
+              },
+            };
+            return {
+              content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
+            };
+          } catch (error) {
+            const duration = performance.now() - startTime;
+            const errorMessage = formatError(error);
+            logJsonError({
+              level: "error",
+              message: `[mcp] ${queryId} ${writeTool.name} failed`,
+              error: errorMessage,
+              filepath: args.filepath,
+              durationMs: parseFloat(duration.toFixed(2)),
+            });
+
+            const errorResponse = {
+              success: false,
+              request_id: queryId,
+              error: `${writeTool.mode}_note_failed`,
+              message: errorMessage,
+              filepath: args.filepath,
+              duration_ms: parseFloat(duration.toFixed(2)),
+              troubleshooting: [
+                "check the file path is relative to the vault root",
+                writeTool.mode === "create"
+                  ? "use obsidian_append_to_note or obsidian_replace_note for existing notes"
+                  : "use obsidian_list_files to confirm the note exists",
+                "verify the vault directory is writable or the local rest api plugin is running",
+              ],
+              meta: {
+                timestamp: new Date().toISOString(),
+                connection_status: vaults.find(args.vault)?.obsidian.getStatus(),
+              },
+            };
+            return {
+              content: [
+                { type: "text", text: JSON.stringify(errorResponse, null, 2) },
+              ],
+              isError: true,
+            };
+          }
+        }
+      );
+    }
+
+    server.tool(
+      "obsidian_patch_note",
+      "edits part of a note without rewriting it: insert under a heading, replace a block with a ^block-id, or set a single frontmatter key. works with or without the obsidian api.",
+      patchNoteSchema.shape,
+      async (args) => {
+        const startTime = performance.now();
+        const queryId = `patch-note-${Date.now()}-${Math.random()
+        .toString(36)
+        .substring(7)}`;
+        logJsonError({
+          level: "info",
+          message: `[mcp] ${queryId} patch_note requested`,
+          filepath: args.filepath,
+          operation: args.operation,
+          target_type: args.target_type,
+          target: args.target,
+        });
+
+        try {
+          const validatedArgs = patchNoteSchema.parse(args);
+          const vault = vaults.get(validatedArgs.vault);
+          const { obsidian, filesystemSearch, filesystemVault } = vault;
+          const notePath = normalizeNotePath(validatedArgs.filepath);
+          const instruction = {
+            operation: validatedArgs.operation,
+            targetType: validatedArgs.target_type,
+            target: validatedArgs.target,
+            content: validatedArgs.content,
+            targetDelimiter: validatedArgs.target_delimiter,
+            createTargetIfMissing: validatedArgs.create_target_if_missing,
+          };
+
+          let writeMethod = "api";
+          let patched = false;
+          if (vault.apiAvailable) {
+            try {
+              await obsidian.patchFile(notePath, instruction);
+              patched = true;
+            } catch (apiError) {
+              // After a timeout or server error the plugin may have applied the patch already
+              if (!isConnectionRefused(apiError)) throw apiError;
+              logJsonError({
+                level: "warn",
+                message: "API patch failed, falling back to filesystem",
+                error: formatError(apiError),
+              });
+              vault.apiAvailable = false;
+            }
+          }
+
+          if (!patched) {
+            writeMethod = "filesystem";
+            await filesystemVault.patchNote(notePath, instruction);
+          }
+          filesystemSearch.markIndexStale();
+
+          const duration = performance.now() - startTime;
+          logJsonError({
+            level: "info",
+            message: `[mcp] ${queryId} patch_note completed`,
+            path: notePath,
+            writeMethod,
+            durationMs: parseFloat(duration.toFixed(2)),
+          });
+
+          const response = {
+            success: true,
+            request_id: queryId,
+            path: notePath,
+            operation: validatedArgs.operation,
+            target_type: validatedArgs.target_type,
+            target: validatedArgs.target,
+            duration_ms: parseFloat(duration.toFixed(2)),
+            meta: {
+              timestamp: new Date().toISOString(),
+              operation_type: "patch_note",
+              write_method: writeMethod,
+            },
+          };
+          return {
+            content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
+          };
+        } catch (error) {
+          const duration = performance.now() - startTime;
+          const errorMessage = formatError(error);
+          logJsonError({
+            level: "error",
+            message: `[mcp] ${queryId} patch_note failed`,
+            error: errorMessage,
+            filepath: args.filepath,
+            durationMs: parseFloat(duration.toFixed(2)),
+          });
+
+          const errorResponse = {
+            success: false,
+            request_id: queryId,
+            error: "patch_note_failed",
+            message: errorMessage,
+            filepath: args.filepath,
+            duration_ms: parseFloat(duration.toFixed(2)),
+            troubleshooting: [
+              "use obsidian_get_file_content to check the exact heading text or block id",
+              "nested headings need the full path, e.g. 'Parent::Child'",
+              "set create_target_if_missing to add a missing heading or frontmatter key",
+            ],
+            meta: {
+              timestamp: new Date().toISOString(),
+              connection_status: vaults.find(args.vault)?.obsidian.getStatus(),
+            },
+          };
+          return {
+            content: [
+              { type: "text", text: JSON.stringify(errorResponse, null, 2) },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    server.tool(
+      "obsidian_move_note",
+      "renames or moves a note and rewrites every [[wikilink]], ![[embed]] and relative markdown link pointing to it, keeping aliases, headings and block references. use dry_run to preview the changes. works directly on the vault files.",
+      moveNoteSchema.shape,
+      async (args) => {
+        const startTime = performance.now();
+        const queryId = `move-note-${Date.now()}-${Math.random()
+        .toString(36)
+        .substring(7)}`;
+        logJsonError({
+          level: "info",
+          message: `[mcp] ${queryId} move_note requested`,
+          from_path: args.from_path,
+          to_path: args.to_path,
+          dry_run: args.dry_run,
+        });
+
+        try {
+          const validatedArgs = moveNoteSchema.parse(args);
+          const { noteMover, filesystemSearch } = vaults.get(validatedArgs.vault);
+          const from = normalizeNotePath(validatedArgs.from_path);
+          const to = normalizeNotePath(validatedArgs.to_path);
+          if (from === to) {
+            throw new Error("from_path and to_path are the same note");
+          }
+
+          const plan = await noteMover.plan(from, to);
+          if (!validatedArgs.dry_run) {
+            await noteMover.apply(plan);
+            filesystemSearch.markIndexStale();
+          }
+
+          const duration = performance.now() - startTime;
+          logJsonError({
+            level: "info",
+            message: `[mcp] ${queryId} move_note completed`,
+            from,
+            to,
+            dryRun: validatedArgs.dry_run,
+            filesChanged: plan.updatedContents.size,
+            linksChanged: plan.changes.length,
+            durationMs: parseFloat(duration.toFixed(2)),
+          });
+
+          const response = {
+            success: true,
+            request_id: queryId,
+            from,
+            to,
+            dry_run: validatedArgs.dry_run,
+            moved: !validatedArgs.dry_run,
+            files_changed: plan.updatedContents.size,
+            lines_changed: plan.changes.length,
+            changes: plan.changes,
+            duration_ms: parseFloat(duration.toFixed(2)),
+            meta: {
+              timestamp: new Date().toISOString(),
+              operation_type: "move_note",
+              write_method: "filesystem",
+            },
+          };
+          return {
+            content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
+          };
+        } catch (error) {
+          const duration = performance.now() - startTime;
+          const errorMessage = formatError(error);
+          logJsonError({
+            level: "error",
+            message: `[mcp] ${queryId} move_note failed`,
+            error: errorMessage,
+            from_path: args.from_path,
+            to_path: args.to_path,
+            durationMs: parseFloat(duration.toFixed(2)),
+          });
+
+          const errorResponse = {
+            success: false,
+            request_id: queryId,
+            error: "move_note_failed",
+            message: errorMessage,
+            from_path: args.from_path,
+            to_path: args.to_path,
+            duration_ms: parseFloat(duration.toFixed(2)),
+            troubleshooting: [
+              "check from_path exists with obsidian_list_files",
+              "choose a to_path that is not already taken",
+              "verify the vault directory is writable",
+            ],
+            meta: {
+              timestamp: new Date().toISOString(),
+              vault_path: vaults.find(args.vault)?.path,
+            },
+          };
+          return {
+            content: [
+              { type: "text", text: JSON.stringify(errorResponse, null, 2) },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // Filesystem-based analysis tools, answered from the index without the api
+    server.tool(
+      "obsidian_fuzzy_search",
+      "fuzzy search for notes using approximate matching. works even when obsidian api is unavailable. great for finding notes when you're not sure of exact spelling or phrasing. tolerates typos in words and note names, returns a 0-1 similarity score with the terms each query word matched, and 'did_you_mean' suggestions when nothing is close enough.",
+      z.object({
+        query: z.string().min(1).max(500).describe("search query for fuzzy matching"),
+        max_results: z.number().min(1).max(50).optional().default(10)
+          .describe("maximum number of results to return (default: 10)"),
+        vault: searchVaultSchema
+      }).shape,
+      async (args) => {
+        const startTime = performance.now();
+        const queryId = `fuzzy-${Date.now()}-${Math.random().toString(36).substring(7)}`;
+        
+        logJsonError({
+          level: "info",
+          message: `[mcp] ${queryId} fuzzy search requested`,
+          query: args.query,
+          max_results: args.max_results
+        });
+
+        try {
+          // One vault, or every vault with the rankings merged by relative score
+          const targets = vaults.select(args.vault);
+          const searched = [];
+          for (const vault of targets) {
+            searched.push({
+              vault: vault.name,
+              results: await vault.filesystemSearch.fuzzySearch(args.query, args.max_results),
+            });
+          }
+          const results = vaults.list().length > 1
+            ? mergeRankedResults(searched, (r) => r.score ?? 0).slice(0, args.max_results)
+            : searched[0].results;
+          const didYouMean = results.length === 0
+            ? Array.from(new Set((await Promise.all(
+                targets.map((vault) => vault.filesystemSearch.didYouMean(args.query))
+              )).flat())).slice(0, 5)
+            : [];
+
+          const endTime = performance.now();
+          const duration = endTime - startTime;
+
+          const response = {
+            success: true,
+            request_id: queryId,
+            query: args.query,
+            total_results: results.length,
+            search_duration_ms: duration,
+            results: results.map(r => ({
+              filename: r.filename,
+              path: r.path,
+              score: r.score,
+              matched_terms: r.matchedTerms,
+              matches: r.matches,
+              frontmatter: r.frontmatter,
+              ...(r.frontmatterErrors && { frontmatter_errors: r.frontmatterErrors }),
+              ...("vault" in r && { vault: r.vault })
+            })),
+            ...(didYouMean.length > 0 && { did_you_mean: didYouMean }),
+            meta: {
+              timestamp: new Date().toISOString(),
+              search_type: "fuzzy",
+              search_method: "filesystem",
+              ...(targets.length === 1
+                ? { index_status: targets[0].filesystemSearch.getIndexStatus() }
+                : { vaults: searched.map((s) => ({ name: s.vault, total_results: s.results.length })) })
+            }
+          };
+
+          logJsonError({
+            level: "info",
+            message: `[mcp] ${queryId} fuzzy search completed`,
+            resultCount: results.length,
+            durationMs: parseFloat(duration.toFixed(2))
+          });
+
+          return {
+            content: [{ type: "text", text: JSON.stringify(response, null, 2) }]
+          };
+        } catch (error) {
+          const endTime = performance.now();
+          const duration = endTime - startTime;
+          
+          logJsonError({
+            level: "error",
+            message: `[mcp] ${queryId} fuzzy search failed`,
+            error: formatError(error)
+          });
+
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                success: false,
+                request_id: queryId,
+                error: "fuzzy_search_failed",
+                message: formatError(error),
+                duration_ms: duration
+              }, null, 2)
+            }],
+            isError: true
+          };
+        }
+      }
+    );
+
+    server.tool(
+      "obsidian_graph_search",
+      "analyze links and connections between notes. finds orphaned notes, builds link graphs, and discovers note relationships. can add per-note metrics (in/out degree, pagerank, betweenness, community id), list the top hub and bridge notes, and summarize topic clusters with their dominant tags. works without obsidian api.",
+      z.object({
+        start_file: z.string().optional()
+          .describe("optional starting file to analyze connections from"),
+        max_depth: z.number().min(1).max(5).optional().default(2)
+          .describe("maximum depth for connection traversal (default: 2)"),
+        include_orphans: z.boolean().optional().default(false)
+          .describe("include notes with no links (default: false)"),
+        include_metrics: z.boolean().optional().default(false)
+          .describe("add in/out degree, pagerank, betweenness and community id to each note (default: false)"),
+        top_n: z.number().min(1).max(100).optional()
+          .describe("also return the top n notes of the whole vault by each metric"),
+        include_clusters: z.boolean().optional().default(false)
+          .describe("also summarize each community of linked notes with its members and dominant tags (default: false)"),
+        vault: vaultSchema
+      }).shape,
+      async (args) => {
+        const startTime = performance.now();
+        const queryId = `graph-${Date.now()}-${Math.random().toString(36).substring(7)}`;
+        
+        logJsonError({
+          level: "info",
+          message: `[mcp] ${queryId} graph search requested`,
+          start_file: args.start_file,
+          max_depth: args.max_depth,
+          include_orphans: args.include_orphans,
+          include_metrics: args.include_metrics,
+          top_n: args.top_n,
+          include_clusters: args.include_clusters
+        });
+
+        try {
+          const vault = vaults.get(args.vault);
+          const { filesystemSearch } = vault;
+          const results = await filesystemSearch.graphSearch({
+            vaultPath: vault.path,
+            startFile: args.start_file,
+            maxDepth: args.max_depth,
+            includeOrphans: args.include_orphans,
+            includeMetrics: args.include_metrics
+          });
+          const summary = args.top_n !== undefined || args.include_clusters
+            ? await filesystemSearch.getGraphSummary(args.top_n)
+            : null;
+
+          const endTime = performance.now();
+          const duration = endTime - startTime;
+
+          const response = {
+            success: true,
+            request_id: queryId,
+            total_notes: results.length,
+            search_duration_ms: duration,
+            orphaned_notes: results.filter(r => 
+              r.outgoingLinks.length === 0 && 
+              (!r.incomingLinks || r.incomingLinks.length === 0)
+            ).length,
+            results: results,
+            ...(summary && args.top_n !== undefined && { top_notes: summary.top }),
+            ...(summary && args.include_clusters && { clusters: summary.communities }),
+            meta: {
+              timestamp: new Date().toISOString(),
+              search_type: "graph_analysis",
+              search_method: "filesystem",
+              index_status: filesystemSearch.getIndexStatus()
+            }
+          };
+
+          logJsonError({
+            level: "info",
+            message: `[mcp] ${queryId} graph search completed`,
+            resultCount: results.length,
+            durationMs: parseFloat(duration.toFixed(2))
+          });
+
+          return {
+            content: [{ type: "text", text: JSON.stringify(response, null, 2) }]
+          };
+        } catch (error) {
+          const endTime = performance.now();
+          const duration = endTime - startTime;
+          
+          logJsonError({
+            level: "error",
+            message: `[mcp] ${queryId} graph search failed`,
+            error: formatError(error)
+          });
+
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                success: false,
+                request_id: queryId,
+                error: "graph_search_failed",
+                message: formatError(error),
+                duration_ms: duration
+              }, null, 2)
+            }],
+            isError: true
+          };
+        }
+      }
+    );
+
+    server.tool(
+      "obsidian_broken_links",
+      "report links that point nowhere: unresolved wikilinks and markdown links, embeds of missing files, and links to headings or ^block ids that do not exist in the target note. results are grouped by missing target with every source file and line, and suggest the closest existing notes, headings or blocks. works without obsidian api.",
+      z.object({
+        path_prefix: z.string().optional()
+          .describe("only check links in notes under this folder (default: whole vault)"),
+        max_suggestions: z.number().min(0).max(10).optional().default(3)
+          .describe("maximum number of suggested replacements per missing target (default: 3)"),
+        vault: vaultSchema
+      }).shape,
+      async (args) => {
+        const startTime = performance.now();
+        const queryId = `broken-links-${Date.now()}-${Math.random().toString(36).substring(7)}`;
+
+        logJsonError({
+          level: "info",
+          message: `[mcp] ${queryId} broken link report requested`,
+          path_prefix: args.path_prefix,
+          max_suggestions: args.max_suggestions
+        });
+
+        try {
+          const { filesystemSearch } = vaults.get(args.vault);
+          const groups = await filesystemSearch.findBrokenLinks({
+            pathPrefix: args.path_prefix,
+            maxSuggestions: args.max_suggestions
+          });
+
+          const endTime = performance.now();
+          const duration = endTime - startTime;
+
+          const response = {
+            success: true,
+            request_id: queryId,
+            total_missing_targets: groups.length,
+            total_broken_links: groups.reduce((sum, group) => sum + group.references.length, 0),
+            search_duration_ms: duration,
+            results: groups,
+            meta: {
+              timestamp: new Date().toISOString(),
+              search_type: "broken_links",
+              search_method: "filesystem",
+              index_status: filesystemSearch.getIndexStatus()
+            }
+          };
+
+          logJsonError({
+            level: "info",
+            message: `[mcp] ${queryId} broken link report completed`,
+            resultCount: groups.length,
+            durationMs: parseFloat(duration.toFixed(2))
+          });
+
+          return {
+            content: [{ type: "text", text: JSON.stringify(response, null, 2) }]
+          };
+        } catch (error) {
+          const endTime = performance.now();
+          const duration = endTime - startTime;
+
+          logJsonError({
+            level: "error",
+            message: `[mcp] ${queryId} broken link report failed`,
+            error: formatError(error)
+          });
+
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                success: false,
+                request_id: queryId,
+                error: "broken_links_failed",
+                message: formatError(error),
+                duration_ms: duration
+              }, null, 2)
+            }],
+            isError: true
+          };
+        }
+      }
+    );
+
+    const linkDirectionSchema = z.enum(["outgoing", "incoming", "both"]).optional().default("both")
+      .describe("follow links the note makes (outgoing), links to it (incoming) or both (default: both)");
+
+    server.tool(
+      "obsidian_link_path",
+      "find the shortest chain of links between two notes, e.g. how one topic leads to another. returns each note along the way and, for every hop, the link and the line it appears on. works without obsidian api.",
+      z.object({
+        from: z.string().min(1).describe("start note, as a path or the way it would be linked (e.g. 'Project Alpha')"),
+        to: z.string().min(1).describe("end note, as a path or the way it would be linked"),
+        direction: linkDirectionSchema,
+        max_depth: z.number().min(1).max(10).optional().default(6)
+          .describe("maximum number of hops to search (default: 6)"),
+        vault: vaultSchema
+      }).shape,
+      async (args) => {
+        const startTime = performance.now();
+        const queryId = `link-path-${Date.now()}-${Math.random().toString(36).substring(7)}`;
+
+        logJsonError({
+          level: "info",
+          message: `[mcp] ${queryId} link path requested`,
+          from: args.from,
+          to: args.to,
+          direction: args.direction,
+          max_depth: args.max_depth
+        });
+
+        try {
+          const { filesystemSearch } = vaults.get(args.vault);
+          const result = await filesystemSearch.findLinkPath(
+            args.from,
+            args.to,
+            args.direction,
+            args.max_depth
+          );
+
+          const endTime = performance.now();
+          const duration = endTime - startTime;
+
+          const response = {
+            success: true,
+            request_id: queryId,
+            from: args.from,
+            to: args.to,
+            connected: result !== null,
+            hops: result ? result.edges.length : null,
+            search_duration_ms: duration,
+            path: result ? result.notes : [],
+            edges: result ? result.edges : [],
+            meta: {
+              timestamp: new Date().toISOString(),
+              search_type: "link_path",
+              search_method: "filesystem",
+              index_status: filesystemSearch.getIndexStatus()
+            }
+          };
+
+          logJsonError({
+            level: "info",
+            message: `[mcp] ${queryId} link path completed`,
+            connected: result !== null,
+            durationMs: parseFloat(duration.toFixed(2))
+          });
+
+          return {
+            content: [{ type: "text", text: JSON.stringify(response, null, 2) }]
+          };
+        } catch (error) {
+          const endTime = performance.now();
+          const duration = endTime - startTime;
+
+          logJsonError({
+            level: "error",
+            message: `[mcp] ${queryId} link path failed`,
+            error: formatError(error)
+          });
+
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                success: false,
+                request_id: queryId,
+                error: "link_path_failed",
+                message: formatError(error),
+                duration_ms: duration
+              }, null, 2)
+            }],
+            isError: true
+          };
+        }
+      }
+    );
+
+    server.tool(
+      "obsidian_neighborhood",
+      "get the notes within n links of a note and the links between them (its ego graph). each note has its distance from the center; each edge has its direction (source links to target) and the lines where the link appears. works without obsidian api.",
+      z.object({
+        note: z.string().min(1).describe("center note, as a path or the way it would be linked"),
+        depth: z.number().min(1).max(5).optional().default(1)
+          .describe("number of hops from the center note to include (default: 1)"),
+        direction: linkDirectionSchema,
+        vault: vaultSchema
+      }).shape,
+      async (args) => {
+        const startTime = performance.now();
+        const queryId = `neighborhood-${Date.now()}-${Math.random().toString(36).substring(7)}`;
+
+        logJsonError({
+          level: "info",
+          message: `[mcp] ${queryId} neighborhood requested`,
+          note: args.note,
+          depth: args.depth,
+          direction: args.direction
+        });
+
+        try {
+          const { filesystemSearch } = vaults.get(args.vault);
+          const neighborhood = await filesystemSearch.getNeighborhood(
+            args.note,
+            args.depth,
+            args.direction
+          );
+
+          const endTime = performance.now();
+          const duration = endTime - startTime;
+
+          const response = {
+            success: true,
+            request_id: queryId,
+            center: neighborhood.center,
+            total_notes: neighborhood.nodes.length,
+            total_edges: neighborhood.edges.length,
+            search_duration_ms: duration,
+            nodes: neighborhood.nodes,
+            edges: neighborhood.edges,
+            meta: {
+              timestamp: new Date().toISOString(),
+              search_type: "neighborhood",
+              search_method: "filesystem",
+              index_status: filesystemSearch.getIndexStatus()
+            }
+          };
+
+          logJsonError({
+            level: "info",
+            message: `[mcp] ${queryId} neighborhood completed`,
+            resultCount: neighborhood.nodes.length,
+            durationMs: parseFloat(duration.toFixed(2))
+          });
+
+          return {
+            content: [{ type: "text", text: JSON.stringify(response, null, 2) }]
+          };
+        } catch (error) {
+          const endTime = performance.now();
+          const duration = endTime - startTime;
+
+          logJsonError({
+            level: "error",
+            message: `[mcp] ${queryId} neighborhood failed`,
+            error: formatError(error)
+          });
+
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                success: false,
+                request_id: queryId,
+                error: "neighborhood_failed",
+                message: formatError(error),
+                duration_ms: duration
+              }, null, 2)
+            }],
+            isError: true
+          };
+        }
+      }
+    );
+
+    server.tool(
+      "obsidian_graph_export",
+      "export the link graph, or the neighborhood of one note, as mermaid flowchart text, graphviz dot, graphml or node-link json for viewing in other tools. nodes can be labelled by name or path, coloured by tag and grouped by folder. returns the text inline, or writes it to a vault file when output_path is given. works without obsidian api for inline output.",
+      z.object({
+        format: z.enum(["mermaid", "dot", "graphml", "json"]).optional().default("mermaid")
+          .describe("output format (default: mermaid)"),
+        start_file: z.string().optional()
+          .describe("export only the neighborhood of this note instead of the whole graph"),
+        max_depth: z.number().min(1).max(5).optional().default(1)
+          .describe("hops from start_file to include (default: 1)"),
+        direction: linkDirectionSchema,
+        include_orphans: z.boolean().optional().default(false)
+          .describe("include notes with no links when exporting the whole graph (default: false)"),
+        labels: z.enum(["name", "path", "none"]).optional().default("name")
+          .describe("label nodes by note name, vault path, or not at all (default: name)"),
+        color_by_tag: z.boolean().optional().default(false)
+          .describe("colour notes by their most common tag (default: false)"),
+        cluster_by_folder: z.boolean().optional().default(false)
+          .describe("group notes into a cluster per folder (default: false)"),
+        output_path: z.string().optional()
+          .describe("vault path to write the export to, e.g. 'Graphs/vault.dot'. a .md path gets mermaid wrapped in a code block so obsidian renders it. a file name without a folder, such as 'vault.dot', goes to the vault's attachment folder"),
+        overwrite: z.boolean().optional().default(false)
+          .describe("replace output_path if it already exists (default: false)"),
+        vault: vaultSchema
+      }).shape,
+      async (args) => {
+        const startTime = performance.now();
+        const queryId = `graph-export-${Date.now()}-${Math.random().toString(36).substring(7)}`;
+
+        logJsonError({
+          level: "info",
+          message: `[mcp] ${queryId} graph export requested`,
+          format: args.format,
+          start_file: args.start_file,
+          output_path: args.output_path
+        });
+
+        try {
+          const vault = vaults.get(args.vault);
+          const { filesystemSearch } = vault;
+          const graph = await filesystemSearch.getExportGraph({
+            startFile: args.start_file,
+            depth: args.max_depth,
+            direction: args.direction,
+            includeOrphans: args.include_orphans
+          });
+          let output = exportGraph(graph.nodes, graph.edges, args.format, {
+            labels: args.labels,
+            colorByTag: args.color_by_tag,
+            clusterByFolder: args.cluster_by_folder
+          });
+
+          let written: { path: string; created: boolean; write_method: string } | null = null;
+          if (args.output_path) {
+            let outputPath = normalizeNotePath(args.output_path);
+            const isNote = outputPath.endsWith(".md");
+            // Export files named without a folder go where obsidian puts new attachments
+            if (!isNote && !outputPath.includes("/")) {
+              outputPath = attachmentPath(vault.settings, outputPath);
+            }
+            if (args.format === "mermaid" && isNote) {
+              output = "```mermaid\n" + output + "```\n";
+            }
+            try {
+              written = await writeNote(vault, "create", outputPath, output);
+            } catch (error) {
+              if (!args.overwrite || !/already exists/.test(formatError(error))) throw error;
+              written = await writeNote(vault, "replace", outputPath, output);
+            }
+            filesystemSearch.markIndexStale();
+          }
+
+          const endTime = performance.now();
+          const duration = endTime - startTime;
+
+          const response = {
+            success: true,
+            request_id: queryId,
+            format: args.format,
+            total_notes: graph.nodes.length,
+            total_edges: graph.edges.length,
+            search_duration_ms: duration,
+            ...(written
+              ? { path: written.path, created: written.created, write_method: written.write_method }
+              : { content: output }),
+            meta: {
+              timestamp: new Date().toISOString(),
+              search_type: "graph_export",
+              search_method: "filesystem",
+              index_status: filesystemSearch.getIndexStatus()
+            }
+          };
+
+          logJsonError({
+            level: "info",
+            message: `[mcp] ${queryId} graph export completed`,
+            resultCount: graph.nodes.length,
+            durationMs: parseFloat(duration.toFixed(2))
+          });
+
+          return {
+            content: [{ type: "text", text: JSON.stringify(response, null, 2) }]
+          };
+        } catch (error) {
+          const endTime = performance.now();
+          const duration = endTime - startTime;
 
-        if (results.length === 0) {
           logJsonError({
             level: "error",
-            message:
-              "obsidian_dataview_search no results found for dataview query",
-            queryId,
-            query: validatedArgs.query,
+            message: `[mcp] ${queryId} graph export failed`,
+            error: formatError(error)
           });
-          response.meta.vault_info += " - no matching metadata/structure found";
+
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                success: false,
+                request_id: queryId,
+                error: "graph_export_failed",
+                message: formatError(error),
+                duration_ms: duration
+              }, null, 2)
+            }],
+            isError: true
+          };
         }
+      }
+    );
+
+    server.tool(
+      "obsidian_unlinked_mentions",
+      "find plain-text mentions of a note's title or aliases in other notes that do not link to it yet, like obsidian's 'unlinked mentions'. returns the line context of each mention. with convert 'propose' each mention shows the [[wikilink]] it would become; with 'apply' the mentions are rewritten as wikilinks.",
+      z.object({
+        note: z.string().min(1).describe("note whose mentions to find, as a path or the way it would be linked"),
+        convert: z.enum(["none", "propose", "apply"]).optional().default("none")
+          .describe("'none' lists mentions, 'propose' previews the wikilink conversion, 'apply' writes it (default: none)"),
+        max_results: z.number().min(1).max(500).optional().default(100)
+          .describe("maximum number of mentions to return or convert (default: 100)"),
+        vault: vaultSchema
+      }).shape,
+      async (args) => {
+        const startTime = performance.now();
+        const queryId = `unlinked-mentions-${Date.now()}-${Math.random().toString(36).substring(7)}`;
 
-        return {
-          content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
-        };
-      } catch (error) {
-        const endTime = performance.now();
-        const duration = endTime - startTime;
-        const errorMessage = formatError(error);
         logJsonError({
-          level: "error",
-          message: `[mcp] ${queryId} dataview query failed`,
-          error: errorMessage,
-          query: args.query,
-          durationMs: parseFloat(duration.toFixed(2)),
+          level: "info",
+          message: `[mcp] ${queryId} unlinked mentions requested`,
+          note: args.note,
+          convert: args.convert,
+          max_results: args.max_results
         });
 
-        // Generate error-specific suggestions
-        const suggestions = generateDataviewSuggestions(
-          args.query,
-          errorMessage
-        );
+        try {
+          const vault = vaults.get(args.vault);
+          const { filesystemSearch, filesystemVault } = vault;
+          const found = await filesystemSearch.findUnlinkedMentions(args.note);
+          const mentions = found.mentions.slice(0, args.max_results);
+
+          const bySource = new Map<string, typeof mentions>();
+          for (const mention of mentions) {
+            bySource.set(mention.source, (bySource.get(mention.source) || []).concat(mention));
+          }
+
+          const written: Array<{ path: string; links_added: number; write_method: string }> = [];
+          if (args.convert === "apply") {
+            for (const [source, edits] of bySource) {
+              const sourcePath = source.split(path.sep).join("/");
+              const updated = linkMentions(await filesystemVault.readNote(sourcePath), edits);
+              if (updated.applied === 0) continue;
+              const result = await writeNote(vault, "replace", sourcePath, updated.content);
+              written.push({ path: result.path, links_added: updated.applied, write_method: result.write_method });
+            }
+            if (written.length > 0) filesystemSearch.markIndexStale();
+          }
+
+          const endTime = performance.now();
+          const duration = endTime - startTime;
+
+          const response = {
+            success: true,
+            request_id: queryId,
+            note: found.note,
+            names: found.names,
+            convert: args.convert,
+            total_mentions: found.mentions.length,
+            total_sources: bySource.size,
+            search_duration_ms: duration,
+            results: Array.from(bySource, ([source, edits]) => ({
+              source,
+              mentions: edits.map(mention => ({
+                line: mention.line,
+                column: mention.column,
+                text: mention.text,
+                context: mention.context,
+                ...(args.convert !== "none" && {
+                  replacement: mention.replacement,
+                  preview: mention.preview
+                })
+              }))
+            })),
+            ...(args.convert === "apply" && {
+              files_changed: written.length,
+              links_added: written.reduce((sum, file) => sum + file.links_added, 0),
+              written
+            }),
+            meta: {
+              timestamp: new Date().toISOString(),
+              search_type: "unlinked_mentions",
+              search_method: "filesystem",
+              index_status: filesystemSearch.getIndexStatus()
+            }
+          };
+
+          logJsonError({
+            level: "info",
+            message: `[mcp] ${queryId} unlinked mentions completed`,
+            resultCount: mentions.length,
+            filesChanged: written.length,
+            durationMs: parseFloat(duration.toFixed(2))
+          });
+
+          return {
+            content: [{ type: "text", text: JSON.stringify(response, null, 2) }]
+          };
+        } catch (error) {
+          const endTime = performance.now();
+          const duration = endTime - startTime;
+
+          logJsonError({
+            level: "error",
+            message: `[mcp] ${queryId} unlinked mentions failed`,
+            error: formatError(error)
+          });
+
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                success: false,
+                request_id: queryId,
+                error: "unlinked_mentions_failed",
+                message: formatError(error),
+                duration_ms: duration
+              }, null, 2)
+            }],
+            isError: true
+          };
+        }
+      }
+    );
 
-        const errorResponse = {
-          success: false,
+    server.tool(
+      "obsidian_list_vaults",
+      "lists the vaults this server can work on, with their paths and whether the obsidian api is connected. pass a vault's name as the 'vault' argument of any other tool; search tools look through every vault when none is named.",
+      {},
+      async () => {
+        const queryId = `list-vaults-${Date.now()}-${Math.random().toString(36).substring(7)}`;
+        const defaultVault = vaults.defaultVault;
+
+        const response = {
+          success: true,
           request_id: queryId,
-          error: "dataview_query_failed",
-          message: errorMessage,
-          query: args.query,
-          duration_ms: duration,
-          suggestions,
-          troubleshooting: [
-            "check dataview query syntax",
-            "ensure dataview plugin is installed in obsidian",
-            "verify obsidian local rest api plugin supports dataview",
-            "confirm api key has necessary permissions",
-            `check api accessibility at ${host}:${port}`,
-            "try a simpler query first: 'list from \"\"'",
-          ],
-          syntax_help:
-            "see https://blacksmithgu.github.io/obsidian-dataview/ for query syntax",
+          default_vault: defaultVault.name,
+          total_vaults: vaults.list().length,
+          vaults: vaults.list().map((vault) => ({
+            name: vault.name,
+            path: vault.path,
+            default: vault === defaultVault,
+            api: vault.hasApi
+              ? { configured: true, available: vault.apiAvailable, address: apiAddress(vault.name) }
+              : { configured: false },
+            settings: {
+              excluded_files: vault.settings.userIgnoreFilters,
+              attachment_folder: vault.settings.attachmentFolderPath,
+              new_link_format: vault.settings.newLinkFormat,
+              use_markdown_links: vault.settings.useMarkdownLinks
+            },
+            watch_mode: vault.vaultWatcher.getMode(),
+            index_status: vault.filesystemSearch.getIndexStatus()
+          })),
           meta: {
             timestamp: new Date().toISOString(),
-            connection_status: obsidian.getStatus(),
-          },
+            operation_type: "list_vaults"
+          }
         };
 
+        logJsonError({
+          level: "info",
+          message: `[mcp] ${queryId} list_vaults completed`,
+          vaultCount: response.total_vaults
+        });
+
         return {
-          content: [
-            { type: "text", text: JSON.stringify(errorResponse, null, 2) },
-          ],
-          isError: true,
+          content: [{ type: "text", text: JSON.stringify(response, null, 2) }]
         };
       }
+    );
+
+    // --- Resources ---
+    // Every file of the default vault is a resource at obsidian://vault/<path>, so clients
+    // can browse the vault in their resource picker and attach notes as context
+    const defaultVault = vaults.defaultVault;
+    const { filesystemVault, vaultWatcher } = defaultVault;
+
+    const toResourceUri = (filepath: string): string =>
+      "obsidian://vault/" + filepath.split("/").map(encodeURIComponent).join("/");
+
+    async function readVaultFile(
+      filepath: string,
+      vault: VaultContext = defaultVault
+    ): Promise<{ text: string; mimeType: string } | { blob: string; mimeType: string }> {
+      const { obsidian, filesystemVault } = vault;
+      const mimeType = mimeTypeFor(filepath);
+      // Refuses paths outside the vault before anything is read
+      filesystemVault.resolvePath(filepath);
+
+      if (vault.apiAvailable) {
+        try {
+          if (isTextMimeType(mimeType)) {
+            return { text: await obsidian.getFileContent(filepath), mimeType };
+          }
+          const binary = await obsidian.getFileBinary(filepath);
+          return { blob: binary.base64Data, mimeType };
+        } catch (apiError) {
+          if (!isConnectionError(apiError)) throw apiError;
+          logJsonError({
+            level: "warn",
+            message: "API resource read failed, falling back to filesystem",
+            error: formatError(apiError),
+          });
+          vault.apiAvailable = false;
+        }
+      }
+
+      const data = await filesystemVault.readBinary(filepath);
+      return isTextMimeType(mimeType)
+        ? { text: data.toString("utf-8"), mimeType }
+        : { blob: data.toString("base64"), mimeType };
     }
-  );
 
-  server.tool(
-    "obsidian_get_file_content",
-    "retrieves the full content of a specific file from the obsidian vault.",
-    getFileContentToolSchema.shape,
-    async (args) => {
-      const startTime = performance.now();
-      const queryId = `get-content-${Date.now()}-${Math.random()
-        .toString(36)
-        .substring(7)}`;
-      logJsonError({
-        level: "info",
-        message: `[mcp] ${queryId} get_file_content requested`,
-        filepath: args.filepath,
-      });
-      try {
-        const validatedArgs = getFileContentToolSchema.parse(args);
-        const content = await obsidian.getFileContent(validatedArgs.filepath);
-        const endTime = performance.now();
-        const duration = endTime - startTime;
+    server.resource(
+      "vault-file",
+      new ResourceTemplate("obsidian://vault/{+path}", {
+        list: async () => {
+          const files = await filesystemVault.listAllFiles();
+          return {
+            resources: files.map((file) => ({
+              uri: toResourceUri(file),
+              name: file,
+              mimeType: mimeTypeFor(file),
+            })),
+          };
+        },
+        complete: {
+          path: async (value) => {
+            const prefix = decodeURIComponent(value).toLowerCase();
+            const files = await filesystemVault.listAllFiles();
+            return files.filter((file) => file.toLowerCase().startsWith(prefix));
+          },
+        },
+      }),
+      {
+        description: `a note or attachment in the default vault "${defaultVault.name}", by vault-relative path. only the default vault is exposed as resources; read files in other vaults with the tools' vault argument`,
+      },
+      async (uri, variables) => {
+        const raw = Array.isArray(variables.path) ? variables.path.join("/") : variables.path;
+        const filepath = raw.split("/").map(decodeURIComponent).join("/");
         logJsonError({
           level: "info",
-          message: `[mcp] ${queryId} successfully fetched file content`,
-          durationMs: parseFloat(duration.toFixed(2)),
-          contentLength: content.length,
+          message: `[mcp] resource read requested`,
+          uri: uri.href,
         });
+        const file = await readVaultFile(filepath);
+        return { contents: [{ uri: uri.href, ...file }] };
+      }
+    );
 
-        // --- Parse image references in markdown content ---
-        const noteDir = path.posix.dirname(validatedArgs.filepath);
+    // --- Prompts ---
+    // Common vault workflows, expanded into messages that carry the relevant notes and the
+    // lists the server computes for them
 
-        const markdownImageRegex = /!\[[^\]]*\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g; // ![alt](path "title")
-        const wikilinkImageRegex = /!\[\[([^\]|]+)(?:\|[^\]]+)?\]\]/g; // ![[path|size]]
-        const htmlImgRegex = /<img\s+[^>]*src=["']([^"']+)["'][^>]*>/gi; // <img src="path">
+    // Longest note text embedded in a prompt, so one huge note cannot crowd out the rest
+    const promptNoteChars = 8000;
+    const dayMs = 24 * 60 * 60 * 1000;
 
-        const extractImageTargets = (markdown: string): string[] => {
-          const targets: string[] = [];
-          const add = (u: string) => {
-            if (u && !targets.includes(u)) targets.push(u);
-          };
-          let m: RegExpExecArray | null;
-          while ((m = markdownImageRegex.exec(markdown)) !== null) add(m[1]);
-          while ((m = wikilinkImageRegex.exec(markdown)) !== null) add(m[1]);
-          while ((m = htmlImgRegex.exec(markdown)) !== null) add(m[1]);
-          return targets;
-        };
+    type PromptMessage = {
+      role: "user";
+      content:
+        | { type: "text"; text: string }
+        | { type: "resource"; resource: { uri: string; mimeType: string; text: string } };
+    };
 
-        const isHttpUrl = (u: string) => /^https?:\/\//i.test(u);
-        const isDataUri = (u: string) => /^data:/i.test(u);
-        const parseDataUri = (
-          u: string
-        ): { mimeType: string; base64Data: string } | null => {
-          const match = /^data:([^;]+);base64,(.*)$/i.exec(u);
-          if (!match) return null;
-          return { mimeType: match[1], base64Data: match[2] };
-        };
+    const textMessage = (text: string): PromptMessage => ({
+      role: "user",
+      content: { type: "text", text },
+    });
 
-        const normalizeVaultPath = (p: string): string => {
-          const norm = path.posix.normalize(p).replace(/^\/+/, "");
-          return norm;
-        };
+    async function noteMessage(vault: VaultContext, filepath: string): Promise<PromptMessage> {
+      const posix = filepath.split(path.sep).join("/");
+      const file = await readVaultFile(posix, vault);
+      const fullText = "text" in file ? file.text : "";
+      const text =
+        fullText.length > promptNoteChars
+          ? fullText.slice(0, promptNoteChars) + "\n\n[note truncated]"
+          : fullText;
+      // Only the default vault's files have resource uris, so notes from other vaults go in as text
+      if (vault !== defaultVault) {
+        return textMessage(`note ${posix} in vault ${vault.name}:\n\n${text}`);
+      }
+      return {
+        role: "user",
+        content: {
+          type: "resource",
+          resource: { uri: toResourceUri(posix), mimeType: file.mimeType, text },
+        },
+      };
+    }
 
-        const candidatePathsFor = (
-          noteDirectory: string,
-          ref: string
-        ): string[] => {
-          const cleanRef = ref.replace(/^\.\//, "");
-          const candidates: string[] = [];
-          if (cleanRef.startsWith("/")) {
-            candidates.push(normalizeVaultPath(cleanRef));
-          } else {
-            candidates.push(
-              normalizeVaultPath(path.posix.join(noteDirectory, cleanRef))
-            );
-            candidates.push(normalizeVaultPath(cleanRef));
-          }
-          return Array.from(new Set(candidates));
-        };
+    // Dates are given as YYYY-MM-DD and read as local days, like daily note names
+    function parseDateArgument(value: string | undefined, fallback: Date): Date {
+      if (!value) return fallback;
+      const match = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+      if (!match) {
+        throw new Error(`invalid date "${value}", expected YYYY-MM-DD`);
+      }
+      const [year, month, day] = match.slice(1).map(Number);
+      const date = new Date(year, month - 1, day);
+      // Date rolls days and months over, e.g. 2024-02-30 into March
+      if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+        throw new Error(`invalid date "${value}", no such day`);
+      }
+      return date;
+    }
 
-        /*
-         * IMAGE PROCESSING DISABLED - Known Issue (2025-01-10)
-         * 
-         * There's a compatibility issue between the MCP SDK image format and Claude's expected format.
-         * The MCP SDK expects { type: "image", data: string, mimeType: string }
-         * But Claude's API validation expects a different format with source.base64.media_type structure.
-         * 
-         * Attempts to fix:
-         * 1. Tried using Anthropic's format directly - rejected by MCP SDK validation
-         * 2. Tried normalizing MIME types - still getting "Could not process image" error
-         * 3. Added extensive error handling and validation - images still fail
-         * 
-         * The issue appears to be in the translation layer between MCP SDK and Claude's API.
-         * Disabling image processing until this is resolved upstream.
-         * 
-         * To re-enable: Uncomment the code below and test with various image formats.
-         */
-        
-        // TEMPORARILY DISABLED - See comment above
-        const refs = []; // extractImageTargets(content);
-        const imageContents: any[] = [];
+    const formatDay = (date: Date): string =>
+      `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
 
-        // IMAGE PROCESSING CODE DISABLED - loops over refs array which is now empty
-        // Original code preserved below for when issue is fixed
-        
-        /*
-        for (const ref of refs) {
-          // ... [Full image processing logic commented out]
-        }
-        */
-        
-        return {
-          content: [{ type: "text", text: content }], // Removed ...imageContents since images are disabled
-        };
-      } catch (error) {
-        const endTime = performance.now();
-        const duration = endTime - startTime;
-        const errorMessage = formatError(error);
-        logJsonError({
-          level: "error",
-          message: `[mcp] ${queryId} get_file_content failed`,
-          error: errorMessage,
-          filepath: args.filepath,
-          durationMs: parseFloat(duration.toFixed(2)),
-        });
+    const startOfToday = (): Date => {
+      const now = new Date();
+      return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    };
 
-        const errorResponse = {
-          success: false,
-          request_id: queryId,
-          error: "get_file_content_failed",
-          message: errorMessage,
-          filepath: args.filepath,
-          duration_ms: parseFloat(duration.toFixed(2)),
-          troubleshooting: [
-            "check if the file path is correct and exists in the vault",
-            "verify obsidian local rest api plugin is running",
-            "ensure api key has permissions to read files",
+    server.prompt(
+      "weekly_review",
+      "review the notes changed over a week (or any date range): what got done, open threads and what to focus on next",
+      {
+        start_date: z.string().optional().describe("first day to include, YYYY-MM-DD (default: 6 days before end_date)"),
+        end_date: z.string().optional().describe("last day to include, YYYY-MM-DD (default: today)"),
+        folder: z.string().optional().describe("only review notes in this folder (default: whole vault)"),
+        vault: vaultSchema,
+      },
+      async (args) => {
+        const vault = vaults.get(args.vault);
+        const endDay = parseDateArgument(args.end_date, startOfToday());
+        const startDay = parseDateArgument(args.start_date, new Date(endDay.getTime() - 6 * dayMs));
+        const notes = await vault.filesystemSearch.getNotesModifiedBetween(
+          startDay,
+          new Date(endDay.getTime() + dayMs - 1),
+          args.folder
+        );
+
+        const listing = notes
+          .map((note) => `- ${note.path} (modified ${formatDay(new Date(note.mtime))}${note.tags.length > 0 ? `, ${note.tags.join(" ")}` : ""})`)
+          .join("\n");
+        const embedded = notes.slice(0, 15);
+        return {
+          description: `weekly review of ${notes.length} notes changed from ${formatDay(startDay)} to ${formatDay(endDay)}`,
+          messages: [
+            textMessage(
+              `these notes in my vault${args.folder ? ` (folder ${args.folder})` : ""} changed between ${formatDay(startDay)} and ${formatDay(endDay)}:\n\n${listing || "(no notes changed)"}` +
+                (notes.length > embedded.length ? `\n\nthe ${embedded.length} most recently changed are attached.` : "")
+            ),
+            ...(await Promise.all(embedded.map((note) => noteMessage(vault, note.path)))),
+            textMessage(
+              "write my weekly review from these notes: what i accomplished, decisions made, open tasks and unanswered questions, recurring themes, and 3-5 priorities for next week. refer to notes as [[note name]] links."
+            ),
           ],
-          meta: {
-            timestamp: new Date().toISOString(),
-            connection_status: obsidian.getStatus(),
-          },
         };
+      }
+    );
+
+    server.prompt(
+      "summarize_note",
+      "summarize a note, with the notes it links to and the notes linking to it for context",
+      {
+        path: z.string().describe("vault path of the note, e.g. 'Projects/Alpha.md'"),
+        vault: vaultSchema,
+      },
+      async (args) => {
+        const vault = vaults.get(args.vault);
+        const notePath = normalizeNotePath(args.path);
+        const localPath = notePath.split("/").join(path.sep);
+        const outgoing = (await vault.filesystemSearch.getOutgoingLinks(localPath))
+          .map((link) => link.resolved || `${link.target} (missing)`);
+        const backlinks = await vault.filesystemSearch.getBacklinks(localPath);
+
         return {
-          content: [
-            { type: "text", text: JSON.stringify(errorResponse, null, 2) },
+          description: `summary of ${notePath}`,
+          messages: [
+            await noteMessage(vault, notePath),
+            textMessage(
+              `summarize the note ${notePath} above: its main points, any decisions and open tasks, in a few short bullet points.\n\n` +
+                `it links to: ${Array.from(new Set(outgoing)).join(", ") || "nothing"}\n` +
+                `it is linked from: ${backlinks.join(", ") || "nothing"}\n\n` +
+                "mention how it fits with these linked notes where that helps."
+            ),
           ],
-          isError: true,
         };
       }
-    }
-  );
+    );
 
-  server.tool(
-    "obsidian_list_files",
-    "lists files and folders within a specified directory in the obsidian vault. if no directory is specified, lists items in the vault root.",
-    listFilesToolSchema.shape,
-    async (args) => {
-      const startTime = performance.now();
-      const queryId = `list-files-${Date.now()}-${Math.random()
-        .toString(36)
-        .substring(7)}`;
-      const dirPath = args.directory_path || "<vault_root>";
-      logJsonError({
-        level: "info",
-        message: `[mcp] ${queryId} list_files requested`,
-        directory_path: dirPath,
-      });
-      try {
-        const validatedArgs = listFilesToolSchema.parse(args);
-        const allFiles = await obsidian.listFiles(validatedArgs.directory_path);
-        
-        // Sort the files based on criteria
-        let sortedFiles = [...allFiles];
-        switch (validatedArgs.sort_by) {
-          case 'name':
-            sortedFiles.sort((a, b) => a.filename.localeCompare(b.filename));
-            break;
-          case 'modified':
-            sortedFiles.sort((a, b) => (b.modified || 0) - (a.modified || 0));
-            break;
-          case 'created':
-            sortedFiles.sort((a, b) => (b.created || 0) - (a.created || 0));
-            break;
-          case 'size':
-            sortedFiles.sort((a, b) => (b.size || 0) - (a.size || 0));
-            break;
-        }
-        
-        // Apply sort order
-        if (validatedArgs.sort_order === 'desc' && validatedArgs.sort_by === 'name') {
-          sortedFiles.reverse();
-        } else if (validatedArgs.sort_order === 'asc' && validatedArgs.sort_by !== 'name') {
-          sortedFiles.reverse();
+    server.prompt(
+      "find_related",
+      "find notes related to a note, from links, shared tags and similar wording, and suggest which to link",
+      {
+        path: z.string().describe("vault path of the note, or its name as it would be linked"),
+        limit: z.string().optional().describe("maximum number of candidate notes (default: 10)"),
+        vault: vaultSchema,
+      },
+      async (args) => {
+        const vault = vaults.get(args.vault);
+        const limit = args.limit ? parseInt(args.limit, 10) : 10;
+        if (!Number.isFinite(limit) || limit < 1) {
+          throw new Error(`invalid limit "${args.limit}", expected a positive number`);
         }
-        
-        // Apply pagination
-        const paginatedFiles = sortedFiles.slice(
-          validatedArgs.offset,
-          validatedArgs.offset + validatedArgs.max_items
-        );
-        
-        const endTime = performance.now();
-        const duration = endTime - startTime;
-        logJsonError({
-          level: "info",
-          message: `[mcp] ${queryId} successfully listed items`,
-          total_items: allFiles.length,
-          returned_items: paginatedFiles.length,
-          offset: validatedArgs.offset,
-          durationMs: parseFloat(duration.toFixed(2)),
-        });
+        const { note, related } = await vault.filesystemSearch.findRelatedNotes(args.path, limit);
+        const listing = related
+          .map((candidate) => `- ${candidate.path} (score ${candidate.score}: ${candidate.reasons.join("; ")})`)
+          .join("\n");
 
-        const response = {
-          success: true,
-          request_id: queryId,
-          directory_path: validatedArgs.directory_path || "/", // Represent root as /
-          total_items: allFiles.length,
-          returned_items: paginatedFiles.length,
-          offset: validatedArgs.offset,
-          max_items: validatedArgs.max_items,
-          has_more: (validatedArgs.offset + validatedArgs.max_items) < allFiles.length,
-          sort_by: validatedArgs.sort_by,
-          sort_order: validatedArgs.sort_order,
-          listing_duration_ms: parseFloat(duration.toFixed(2)),
-          items: paginatedFiles, // Paginated array of file/folder objects
-          ...(allFiles.length > validatedArgs.max_items && {
-            pagination_hint: `Showing items ${validatedArgs.offset + 1}-${Math.min(validatedArgs.offset + validatedArgs.max_items, allFiles.length)} of ${allFiles.length}. Use offset parameter to see more.`
-          }),
-          meta: {
-            timestamp: new Date().toISOString(),
-            operation_type: "list_files",
-          },
-        };
         return {
-          content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
+          description: `notes related to ${note}`,
+          messages: [
+            await noteMessage(vault, note),
+            textMessage(
+              `candidate notes related to ${note}, found from links, shared tags and similar wording:\n\n${listing || "(no candidates found)"}\n\n` +
+                "which of these are really related to the note above, and how? point out notes that should be linked but are not yet, and suggest where in the note a [[link]] would fit. read candidates with obsidian_get_file_content if needed."
+            ),
+          ],
         };
-      } catch (error) {
-        const endTime = performance.now();
-        const duration = endTime - startTime;
-        const errorMessage = formatError(error);
-        logJsonError({
-          level: "error",
-          message: `[mcp] ${queryId} list_files failed for "${dirPath}"`,
-          error: errorMessage,
-          durationMs: parseFloat(duration.toFixed(2)),
+      }
+    );
+
+    server.prompt(
+      "daily_standup_from_journal",
+      "draft a daily standup (yesterday, today, blockers) from journal or daily notes",
+      {
+        date: z.string().optional().describe("day of the standup, YYYY-MM-DD (default: today)"),
+        folder: z.string().optional().describe("folder holding the journal or daily notes (default: whole vault)"),
+        vault: vaultSchema,
+      },
+      async (args) => {
+        const vault = vaults.get(args.vault);
+        const day = parseDateArgument(args.date, startOfToday());
+        const previousDay = new Date(day.getTime() - dayMs);
+        const dayNames = [formatDay(previousDay), formatDay(day)];
+
+        // Daily notes are usually named after their day; other notes count if edited in the window
+        const prefix = (args.folder || "").replace(/\\/g, "/").replace(/^\/+|\/+$/g, "").toLowerCase();
+        const named = (await vault.filesystemSearch.getAllMarkdownFiles()).filter((file) => {
+          const posix = file.split(path.sep).join("/");
+          return (!prefix || posix.toLowerCase().startsWith(prefix + "/")) &&
+            dayNames.some((name) => path.posix.basename(posix).includes(name));
         });
+        const edited = (await vault.filesystemSearch.getNotesModifiedBetween(previousDay, new Date(day.getTime() + dayMs - 1), args.folder))
+          .map((note) => note.path);
+        const journal = Array.from(new Set(named.concat(edited))).slice(0, 15);
 
-        const errorResponse = {
-          success: false,
-          request_id: queryId,
-          error: "list_files_failed",
-          message: errorMessage,
-          directory_path: args.directory_path,
-          duration_ms: parseFloat(duration.toFixed(2)),
-          troubleshooting: [
-            "check if the directory path is correct",
-            "verify obsidian local rest api plugin is running",
-            "ensure api key has permissions to list files",
+        return {
+          description: `standup for ${formatDay(day)} from ${journal.length} notes`,
+          messages: [
+            textMessage(
+              `journal notes for ${dayNames[0]} and ${dayNames[1]}${args.folder ? ` in ${args.folder}` : ""}:\n\n${journal.map((file) => `- ${file}`).join("\n") || "(none found)"}`
+            ),
+            ...(await Promise.all(journal.map((file) => noteMessage(vault, file)))),
+            textMessage(
+              `draft my standup for ${dayNames[1]} from these notes, as three short sections: yesterday (what i did), today (what i plan to do) and blockers. keep each to a few bullet points and leave out private details.`
+            ),
           ],
-          meta: {
-            timestamp: new Date().toISOString(),
-            connection_status: obsidian.getStatus(),
-          },
         };
+      }
+    );
+
+    server.prompt(
+      "cleanup_orphans",
+      "list notes with no links in or out and plan what to do with each: link, merge, archive or delete",
+      {
+        folder: z.string().optional().describe("only consider notes in this folder (default: whole vault)"),
+        vault: vaultSchema,
+      },
+      async (args) => {
+        const vault = vaults.get(args.vault);
+        const prefix = (args.folder || "").replace(/\\/g, "/").replace(/^\/+|\/+$/g, "").toLowerCase();
+        const orphans = (await vault.filesystemSearch.graphSearch({ vaultPath: vault.path, includeOrphans: true }))
+          .filter((note) => note.outgoingLinks.length === 0 && (!note.incomingLinks || note.incomingLinks.length === 0))
+          .filter((note) => !prefix || note.path.split(path.sep).join("/").toLowerCase().startsWith(prefix + "/"));
+
+        const shown = orphans.slice(0, 100);
+        const listing = await Promise.all(
+          shown.map(async (note) => {
+            const stats = await vault.filesystemVault.statFile(note.path.split(path.sep).join("/"));
+            const modified = stats ? `modified ${formatDay(new Date(stats.modified))}, ${stats.size} bytes` : "unknown";
+            return `- ${note.path} (${modified}${note.tags.length > 0 ? `, ${note.tags.join(" ")}` : ""})`;
+          })
+        );
+
         return {
-          content: [
-            { type: "text", text: JSON.stringify(errorResponse, null, 2) },
+          description: `${orphans.length} orphaned notes`,
+          messages: [
+            textMessage(
+              `these ${orphans.length} notes${args.folder ? ` in ${args.folder}` : ""} have no links to or from other notes` +
+                (orphans.length > shown.length ? ` (first ${shown.length} shown)` : "") +
+                `:\n\n${listing.join("\n") || "(no orphaned notes)"}\n\n` +
+                "help me clean them up. for each, suggest one of: link it from a related note (say which), merge it into another note, archive it, or delete it if empty or obsolete. " +
+                "templates, daily notes and inbox items can be fine on their own. read notes with obsidian_get_file_content before deciding, and do not change anything until i confirm."
+            ),
           ],
-          isError: true,
         };
       }
+    );
+
+    // Clients can subscribe to a file's resource and are notified when it changes on disk,
+    // e.g. when it is edited in obsidian, and when files are created, deleted or renamed.
+    // Both rely on the vault watcher, so they are only offered while it runs.
+    if (vaultWatcher.getMode() !== "off") {
+      const subscriptions = new Set<string>();
+      // One spelling per file, however the client encoded the uri
+      const canonicalUri = (uri: string): string => {
+        const prefix = "obsidian://vault/";
+        if (!uri.startsWith(prefix)) return uri;
+        try {
+          return toResourceUri(uri.slice(prefix.length).split("/").map(decodeURIComponent).join("/"));
+        } catch {
+          return uri;
+        }
+      };
+
+      server.server.registerCapabilities({
+        resources: { subscribe: true, listChanged: true },
+      });
+      server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+        subscriptions.add(canonicalUri(request.params.uri));
+        return {};
+      });
+      server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+        subscriptions.delete(canonicalUri(request.params.uri));
+        return {};
+      });
+
+      const notifySubscribers = async (changes: VaultChange[]) => {
+        const updated = new Set<string>();
+        let listChanged = false;
+        for (const change of changes) {
+          const uri = toResourceUri(change.path.split(path.sep).join("/"));
+          if (subscriptions.has(uri)) updated.add(uri);
+          if (change.oldPath) {
+            const oldUri = toResourceUri(change.oldPath.split(path.sep).join("/"));
+            if (subscriptions.has(oldUri)) updated.add(oldUri);
+          }
+          if (change.type !== "modified") listChanged = true;
+        }
+
+        try {
+          for (const uri of updated) {
+            await server.server.sendResourceUpdated({ uri });
+          }
+          if (listChanged) await server.server.sendResourceListChanged();
+        } catch (error) {
+          // Not connected yet, or the client went away
+          logJsonError({
+            level: "warn",
+            message: "could not send resource change notification",
+            error: formatError(error),
+          });
+        }
+      };
+      vaultWatcher.onChange(notifySubscribers);
+      // Closed http sessions must stop receiving vault changes
+      server.server.onclose = () => vaultWatcher.offChange(notifySubscribers);
     }
-  );
+
+    return server;
+  }
 
   // --- Connect Server ---
-  const transport = new StdioServerTransport();
   try {
-    await server.connect(transport);
+    if (transportMode === "http") {
+      await startHttpServer(createServer, {
+        host: httpHost,
+        port: httpPort,
+        token: httpToken,
+        sessionIdleMs: httpSessionTimeout,
+        log: logJsonError,
+      });
+    } else {
+      await createServer().connect(new StdioServerTransport());
+    }
     logJsonError({
       level: "info",
-      message: "✅ easy-obsidian-mcp server connected and listening on stdio",
-      obsidian_api: `${host}:${port}`,
+      message:
+        transportMode === "http"
+          ? `✅ easy-obsidian-mcp server listening on http://${httpHost}:${httpPort}/mcp`
+          : "✅ easy-obsidian-mcp server connected and listening on stdio",
+      vaults: vaults.list().map((vault) => vault.name),
+      obsidian_api: apiAddress(),
       timeout: `${timeout}ms`,
       debug_mode: debug ? "enabled" : "disabled",
+      ...(transportMode === "http" && { http_auth: httpToken ? "bearer token" : "none" }),
       circuit_breaker: "enabled", // Assuming it's always enabled based on Obsidian class
       request_tracking: "enabled", // Assuming based on queryId usage
     });
@@ -1135,179 +3306,6 @@ see dataview documentation for full syntax: https://blacksmithgu.github.io/obsid
     });
     process.exit(1);
   }
-
-  // Add new filesystem-based tools
-  server.tool(
-    "obsidian_fuzzy_search",
-    "fuzzy search for notes using approximate matching. works even when obsidian api is unavailable. great for finding notes when you're not sure of exact spelling or phrasing.",
-    z.object({
-      query: z.string().min(1).max(500).describe("search query for fuzzy matching"),
-      max_results: z.number().min(1).max(50).optional().default(10)
-        .describe("maximum number of results to return (default: 10)")
-    }).shape,
-    async (args) => {
-      const startTime = performance.now();
-      const queryId = `fuzzy-${Date.now()}-${Math.random().toString(36).substring(7)}`;
-      
-      logJsonError({
-        level: "info",
-        message: `[mcp] ${queryId} fuzzy search requested`,
-        query: args.query,
-        max_results: args.max_results
-      });
-
-      try {
-        const results = await filesystemSearch.fuzzySearch(
-          args.query,
-          args.max_results
-        );
-
-        const endTime = performance.now();
-        const duration = endTime - startTime;
-
-        const response = {
-          success: true,
-          request_id: queryId,
-          query: args.query,
-          total_results: results.length,
-          search_duration_ms: duration,
-          results: results.map(r => ({
-            filename: r.filename,
-            path: r.path,
-            matches: r.matches,
-            frontmatter: r.frontmatter
-          })),
-          meta: {
-            timestamp: new Date().toISOString(),
-            search_type: "fuzzy",
-            search_method: "filesystem"
-          }
-        };
-
-        logJsonError({
-          level: "info",
-          message: `[mcp] ${queryId} fuzzy search completed`,
-          resultCount: results.length,
-          durationMs: parseFloat(duration.toFixed(2))
-        });
-
-        return {
-          content: [{ type: "text", text: JSON.stringify(response, null, 2) }]
-        };
-      } catch (error) {
-        const endTime = performance.now();
-        const duration = endTime - startTime;
-        
-        logJsonError({
-          level: "error",
-          message: `[mcp] ${queryId} fuzzy search failed`,
-          error: formatError(error)
-        });
-
-        return {
-          content: [{
-            type: "text",
-            text: JSON.stringify({
-              success: false,
-              request_id: queryId,
-              error: "fuzzy_search_failed",
-              message: formatError(error),
-              duration_ms: duration
-            }, null, 2)
-          }],
-          isError: true
-        };
-      }
-    }
-  );
-
-  server.tool(
-    "obsidian_graph_search",
-    "analyze links and connections between notes. finds orphaned notes, builds link graphs, and discovers note relationships. works without obsidian api.",
-    z.object({
-      start_file: z.string().optional()
-        .describe("optional starting file to analyze connections from"),
-      max_depth: z.number().min(1).max(5).optional().default(2)
-        .describe("maximum depth for connection traversal (default: 2)"),
-      include_orphans: z.boolean().optional().default(false)
-        .describe("include notes with no links (default: false)")
-    }).shape,
-    async (args) => {
-      const startTime = performance.now();
-      const queryId = `graph-${Date.now()}-${Math.random().toString(36).substring(7)}`;
-      
-      logJsonError({
-        level: "info",
-        message: `[mcp] ${queryId} graph search requested`,
-        start_file: args.start_file,
-        max_depth: args.max_depth,
-        include_orphans: args.include_orphans
-      });
-
-      try {
-        const results = await filesystemSearch.graphSearch({
-          vaultPath,
-          startFile: args.start_file,
-          maxDepth: args.max_depth,
-          includeOrphans: args.include_orphans
-        });
-
-        const endTime = performance.now();
-        const duration = endTime - startTime;
-
-        const response = {
-          success: true,
-          request_id: queryId,
-          total_notes: results.length,
-          search_duration_ms: duration,
-          orphaned_notes: results.filter(r => 
-            r.outgoingLinks.length === 0 && 
-            (!r.incomingLinks || r.incomingLinks.length === 0)
-          ).length,
-          results: results,
-          meta: {
-            timestamp: new Date().toISOString(),
-            search_type: "graph_analysis",
-            search_method: "filesystem"
-          }
-        };
-
-        logJsonError({
-          level: "info",
-          message: `[mcp] ${queryId} graph search completed`,
-          resultCount: results.length,
-          durationMs: parseFloat(duration.toFixed(2))
-        });
-
-        return {
-          content: [{ type: "text", text: JSON.stringify(response, null, 2) }]
-        };
-      } catch (error) {
-        const endTime = performance.now();
-        const duration = endTime - startTime;
-        
-        logJsonError({
-          level: "error",
-          message: `[mcp] ${queryId} graph search failed`,
-          error: formatError(error)
-        });
-
-        return {
-          content: [{
-            type: "text",
-            text: JSON.stringify({
-              success: false,
-              request_id: queryId,
-              error: "graph_search_failed",
-              message: formatError(error),
-              duration_ms: duration
-            }, null, 2)
-          }],
-          isError: true
-        };
-      }
-    }
-  );
 }
 
 // Graceful shutdown
@@ -0,0 +1,121 @@
+import * as path from 'path';
+import { NewLinkFormat } from './vault-settings';
+
+/**
+ * Split the inside of a [[wikilink]] into note target, #subpath and |alias
+ */
+export function splitLinkTarget(raw: string): { target: string; subpath: string; alias: string } {
+  const pipe = raw.indexOf('|');
+  const alias = pipe === -1 ? '' : raw.slice(pipe);
+  const linkPart = pipe === -1 ? raw : raw.slice(0, pipe);
+  const hash = linkPart.indexOf('#');
+  return {
+    target: hash === -1 ? linkPart : linkPart.slice(0, hash),
+    subpath: hash === -1 ? '' : linkPart.slice(hash),
+    alias
+  };
+}
+
+function toPosix(file: string): string {
+  return file.replace(/\\/g, '/');
+}
+
+/**
+ * Resolves link targets to vault files the way Obsidian does. Built once per file list,
+ * so resolving many links does not scan the vault for each one.
+ * Files may use either separator; resolved paths are returned as given.
+ */
+export class LinkResolver {
+  private byPath: Map<string, string> = new Map();
+  private byName: Map<string, string[]> = new Map();
+
+  constructor(files: string[]) {
+    for (const file of files) {
+      const posix = toPosix(file);
+      this.byPath.set(posix.toLowerCase(), file);
+      const name = path.posix.basename(posix).toLowerCase();
+      const sameName = this.byName.get(name);
+      if (sameName) {
+        sameName.push(file);
+      } else {
+        this.byName.set(name, [file]);
+      }
+    }
+  }
+
+  /**
+   * Resolve a link target from a source note: explicit ./ or ../ paths relative to the
+   * source, then an exact vault path, then among notes whose path ends with the target,
+   * one in the source's folder, else the shortest path. A markdown link is tried
+   * relative to the source first, as Obsidian writes them that way.
+   */
+  resolve(target: string, sourceFile: string, relativeFirst: boolean = false): string | null {
+    const clean = toPosix(target.trim());
+    // [[#Heading]] and [[#^block]] point into the source note itself
+    if (!clean) return sourceFile || null;
+
+    const sourceDir = path.posix.dirname(toPosix(sourceFile));
+    if (relativeFirst || clean.startsWith('./') || clean.startsWith('../')) {
+      const relative = this.lookupPath(path.posix.normalize(path.posix.join(sourceDir, clean)));
+      if (relative) return relative;
+      if (clean.startsWith('./') || clean.startsWith('../')) return null;
+    }
+
+    const fromRoot = clean.replace(/^\/+/, '');
+    const exact = this.lookupPath(fromRoot);
+    if (exact) return exact;
+
+    const names = withExtension(fromRoot).map(name => name.toLowerCase());
+    const candidates: string[] = [];
+    for (const name of names) {
+      for (const file of this.byName.get(path.posix.basename(name)) || []) {
+        if (toPosix(file).toLowerCase().endsWith('/' + name)) candidates.push(file);
+      }
+    }
+    if (candidates.length === 0) return null;
+
+    const sameFolder = candidates.find(file => path.posix.dirname(toPosix(file)) === sourceDir);
+    if (sameFolder) return sameFolder;
+
+    return candidates.sort((a, b) => a.length - b.length || a.localeCompare(b))[0];
+  }
+
+  private lookupPath(posixPath: string): string | null {
+    for (const name of withExtension(posixPath)) {
+      const file = this.byPath.get(name.toLowerCase());
+      if (file) return file;
+    }
+    return null;
+  }
+}
+
+/**
+ * A link target may leave out the .md extension of a note
+ */
+function withExtension(target: string): string[] {
+  return target.toLowerCase().endsWith('.md') ? [target] : [target + '.md', target];
+}
+
+/**
+ * Resolve a single wikilink target against a list of files
+ */
+export function resolveNoteLink(target: string, sourceFile: string, files: string[]): string | null {
+  if (!target.trim()) return null;
+  return new LinkResolver(files).resolve(target, sourceFile);
+}
+
+/**
+ * The path to write in a new link from `sourceFile` to `targetFile` in Obsidian's
+ * "new link format": the file name when no other file shares it (shortest), the path
+ * relative to the source note, or the path from the vault root. The extension is kept.
+ */
+export function formatLinkPath(format: NewLinkFormat, sourceFile: string, targetFile: string, files: string[]): string {
+  const target = toPosix(targetFile);
+  if (format === 'absolute') return target;
+  if (format === 'relative') {
+    return path.posix.relative(path.posix.dirname(toPosix(sourceFile)), target) || path.posix.basename(target);
+  }
+  const name = path.posix.basename(target).toLowerCase();
+  const sameName = files.filter(file => path.posix.basename(toPosix(file)).toLowerCase() === name);
+  return sameName.length > 1 ? target : path.posix.basename(target);
+}
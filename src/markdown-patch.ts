@@ -0,0 +1,320 @@
+import { YAMLSeq, isMap, isScalar, isSeq, parseDocument } from 'yaml';
+
+export type PatchOperation = 'append' | 'prepend' | 'replace';
+export type PatchTargetType = 'heading' | 'block' | 'frontmatter';
+
+export interface PatchInstruction {
+  operation: PatchOperation;
+  targetType: PatchTargetType;
+  /** Heading path ("H1::H2"), block id (with or without ^), or frontmatter key */
+  target: string;
+  content: string;
+  targetDelimiter?: string;
+  createTargetIfMissing?: boolean;
+}
+
+interface Heading {
+  line: number;
+  level: number;
+  text: string;
+  /** Texts of this heading and all its ancestors, outermost first */
+  chain: string[];
+}
+
+const HEADING_REGEX = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE_REGEX = /^\s*(```|~~~)/;
+
+/**
+ * Apply a Local REST API style PATCH to markdown content and return the new content
+ */
+export function applyPatch(content: string, instruction: PatchInstruction): string {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const lines = content.split(/\r?\n/);
+  let updated: string[];
+
+  switch (instruction.targetType) {
+    case 'heading':
+      updated = patchHeading(lines, instruction);
+      break;
+    case 'block':
+      updated = patchBlock(lines, instruction);
+      break;
+    case 'frontmatter':
+      updated = patchFrontmatter(lines, instruction);
+      break;
+    default:
+      throw new Error(`unsupported target type "${instruction.targetType}"`);
+  }
+
+  return updated.join(eol);
+}
+
+/**
+ * Parse ATX headings, skipping fenced code blocks and frontmatter
+ */
+export function parseHeadings(lines: string[]): Heading[] {
+  const headings: Heading[] = [];
+  const stack: Heading[] = [];
+  let inFence = false;
+  const start = frontmatterRange(lines)?.end ?? -1;
+
+  for (let i = start + 1; i < lines.length; i++) {
+    if (FENCE_REGEX.test(lines[i])) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+
+    const match = lines[i].match(HEADING_REGEX);
+    if (!match) continue;
+
+    const level = match[1].length;
+    while (stack.length > 0 && stack[stack.length - 1].level >= level) {
+      stack.pop();
+    }
+    const text = match[2].trim();
+    const heading: Heading = {
+      line: i,
+      level,
+      text,
+      chain: [...stack.map(h => h.text), text]
+    };
+    stack.push(heading);
+    headings.push(heading);
+  }
+
+  return headings;
+}
+
+function contentLines(content: string): string[] {
+  return content.replace(/\r\n/g, '\n').replace(/\n$/, '').split('\n');
+}
+
+function patchHeading(lines: string[], instruction: PatchInstruction): string[] {
+  const delimiter = instruction.targetDelimiter || '::';
+  const segments = instruction.target.split(delimiter).map(s => s.trim()).filter(Boolean);
+  if (segments.length === 0) {
+    throw new Error('heading target cannot be empty');
+  }
+
+  const headings = parseHeadings(lines);
+  const heading = findHeading(headings, segments, delimiter, instruction.target);
+  const insert = contentLines(instruction.content);
+
+  if (!heading) {
+    if (!instruction.createTargetIfMissing) {
+      throw new Error(`heading "${instruction.target}" not found`);
+    }
+    return createHeading(lines, headings, segments, delimiter, instruction.target, insert);
+  }
+
+  const { next, sectionEnd, lastContent } = sectionBounds(lines, headings, heading);
+
+  switch (instruction.operation) {
+    case 'prepend':
+      return [...lines.slice(0, heading.line + 1), ...insert, ...lines.slice(heading.line + 1)];
+    case 'append':
+      return [...lines.slice(0, lastContent + 1), ...insert, ...lines.slice(lastContent + 1)];
+    case 'replace': {
+      const trailing = next ? [''] : [];
+      return [...lines.slice(0, heading.line + 1), ...insert, ...trailing, ...lines.slice(sectionEnd)];
+    }
+  }
+}
+
+// Prefer the full path from the top of the document, then a unique partial path
+function findHeading(
+  headings: Heading[],
+  segments: string[],
+  delimiter: string,
+  target: string
+): Heading | undefined {
+  const sameChain = (chain: string[], from: number) =>
+    chain.slice(from).every((text, i) => text.toLowerCase() === segments[i].toLowerCase());
+
+  const full = headings.find(h => h.chain.length === segments.length && sameChain(h.chain, 0));
+  if (full) return full;
+  const partial = headings.filter(
+    h => h.chain.length > segments.length && sameChain(h.chain, h.chain.length - segments.length)
+  );
+  if (partial.length > 1) {
+    throw new Error(
+      `heading target "${target}" is ambiguous, use the full path (e.g. "${partial[0].chain.join(delimiter)}")`
+    );
+  }
+  return partial[0];
+}
+
+// The section runs until the next heading of the same or a higher level
+function sectionBounds(
+  lines: string[],
+  headings: Heading[],
+  heading: Heading
+): { next?: Heading; sectionEnd: number; lastContent: number } {
+  const next = headings.find(h => h.line > heading.line && h.level <= heading.level);
+  const sectionEnd = next ? next.line : lines.length;
+  let lastContent = sectionEnd - 1;
+  while (lastContent > heading.line && lines[lastContent].trim() === '') lastContent--;
+  return { next, sectionEnd, lastContent };
+}
+
+/**
+ * Add the missing end of a heading path at the end of the deepest section that exists,
+ * creating each missing level, or at the end of the document when none of it exists
+ */
+function createHeading(
+  lines: string[],
+  headings: Heading[],
+  segments: string[],
+  delimiter: string,
+  target: string,
+  insert: string[]
+): string[] {
+  let parent: Heading | undefined;
+  let depth = segments.length - 1;
+  for (; depth > 0; depth--) {
+    parent = findHeading(headings, segments.slice(0, depth), delimiter, target);
+    if (parent) break;
+  }
+
+  const baseLevel = parent ? parent.level : 0;
+  const created = segments.slice(depth).flatMap((text, i, missing) => {
+    const heading = `${'#'.repeat(Math.min(6, baseLevel + i + 1))} ${text}`;
+    return i === missing.length - 1 ? [heading, ...insert] : [heading, ''];
+  });
+
+  if (!parent) {
+    const result = [...lines];
+    while (result.length > 0 && result[result.length - 1].trim() === '') result.pop();
+    return [...result, '', ...created, ''];
+  }
+
+  const { next, sectionEnd, lastContent } = sectionBounds(lines, headings, parent);
+  // Keep a blank line between the new section and the heading that follows it
+  const spacing = next && sectionEnd === lastContent + 1 ? [''] : [];
+  return [...lines.slice(0, lastContent + 1), '', ...created, ...spacing, ...lines.slice(lastContent + 1)];
+}
+
+function patchBlock(lines: string[], instruction: PatchInstruction): string[] {
+  const id = instruction.target.trim().replace(/^\^/, '');
+  if (!/^[\w-]+$/.test(id)) {
+    throw new Error(`invalid block id "${instruction.target}"`);
+  }
+
+  const marker = new RegExp(`(^|\\s)\\^${id}\\s*$`);
+  const markerLine = lines.findIndex(line => marker.test(line));
+  if (markerLine === -1) {
+    throw new Error(`block "^${id}" not found`);
+  }
+
+  const standalone = lines[markerLine].trim() === `^${id}`;
+  const isListItem = (line: string) => /^\s*([-*+]|\d+[.)])\s/.test(line);
+  let start: number;
+  let end: number;
+
+  if (standalone) {
+    // A block id on its own line refers to the block right above it
+    end = markerLine - 1;
+    while (end >= 0 && lines[end].trim() === '') end--;
+    if (end < 0) throw new Error(`block "^${id}" has no content`);
+    start = end;
+    while (start > 0 && lines[start - 1].trim() !== '') start--;
+  } else if (isListItem(lines[markerLine])) {
+    start = markerLine;
+    end = markerLine;
+  } else {
+    start = markerLine;
+    while (start > 0 && lines[start - 1].trim() !== '' && !HEADING_REGEX.test(lines[start - 1])) start--;
+    end = markerLine;
+  }
+
+  const insert = contentLines(instruction.content);
+
+  switch (instruction.operation) {
+    case 'prepend':
+      return [...lines.slice(0, start), ...insert, ...lines.slice(start)];
+    case 'append':
+      return [...lines.slice(0, end + 1), ...insert, ...lines.slice(end + 1)];
+    case 'replace': {
+      if (standalone) {
+        return [...lines.slice(0, start), ...insert, ...lines.slice(end + 1)];
+      }
+      // Keep the block id on the last line of the new content
+      const replaced = [...insert];
+      replaced[replaced.length - 1] = `${replaced[replaced.length - 1]} ^${id}`;
+      return [...lines.slice(0, start), ...replaced, ...lines.slice(end + 1)];
+    }
+  }
+}
+
+/**
+ * Locate the frontmatter block; start and end are the indexes of the --- lines
+ */
+export function frontmatterRange(lines: string[]): { start: number; end: number } | null {
+  if (lines.length === 0 || lines[0].trim() !== '---') return null;
+  for (let i = 1; i < lines.length; i++) {
+    if (lines[i].trim() === '---' || lines[i].trim() === '...') {
+      return { start: 0, end: i };
+    }
+  }
+  return null;
+}
+
+function parseContentValue(content: string): unknown {
+  try {
+    return JSON.parse(content);
+  } catch {
+    return content.trim();
+  }
+}
+
+function patchFrontmatter(lines: string[], instruction: PatchInstruction): string[] {
+  const key = instruction.target.trim();
+  if (!key || /[:\n]/.test(key)) {
+    throw new Error(`invalid frontmatter key "${instruction.target}"`);
+  }
+
+  const value = parseContentValue(instruction.content);
+  const range = frontmatterRange(lines);
+  const document = parseDocument(range ? lines.slice(range.start + 1, range.end).join('\n') : '');
+  if (document.errors.length > 0) {
+    throw new Error(`frontmatter is not valid yaml: ${document.errors[0].message}`);
+  }
+  if (document.contents !== null && !isMap(document.contents)) {
+    throw new Error('frontmatter is not a map of properties');
+  }
+
+  if (!document.has(key)) {
+    if (!instruction.createTargetIfMissing) {
+      throw new Error(`frontmatter key "${key}" not found`);
+    }
+    document.set(key, instruction.operation === 'replace' ? value : toList(value));
+  } else if (instruction.operation === 'replace') {
+    document.set(key, value);
+  } else {
+    // Only lists and single values can grow; maps and blocks of text would be lost
+    const node = document.get(key, true);
+    const items = toList(value).map(item => document.createNode(item));
+    if (isSeq(node)) {
+      node.items = instruction.operation === 'append' ? [...node.items, ...items] : [...items, ...node.items];
+    } else if (isScalar(node) && node.type !== 'BLOCK_LITERAL' && node.type !== 'BLOCK_FOLDED') {
+      const current = node.value === null ? [] : [node];
+      const list = new YAMLSeq(document.schema);
+      list.items = instruction.operation === 'append' ? [...current, ...items] : [...items, ...current];
+      document.set(key, list);
+    } else {
+      throw new Error(
+        `frontmatter key "${key}" holds ${isMap(node) ? 'a map' : 'a block of text'}, use replace to change it`
+      );
+    }
+  }
+
+  // Keep long values on one line and flow lists as Obsidian writes them, [a, b]
+  const yaml = document.toString({ lineWidth: 0, flowCollectionPadding: false }).replace(/\n$/, '');
+  const block = ['---', ...yaml.split('\n'), '---'];
+  return range ? [...block, ...lines.slice(range.end + 1)] : [...block, ...lines];
+}
+
+function toList(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [value];
+}
@@ -0,0 +1,244 @@
+import * as path from 'path';
+import { FilesystemSearch } from './filesystem-search';
+import { FilesystemVault } from './filesystem-vault';
+import { LinkResolver, formatLinkPath, splitLinkTarget } from './link-resolver';
+import { NewLinkFormat } from './vault-settings';
+
+export interface LinkChange {
+  file: string;
+  line: number;
+  before: string;
+  after: string;
+}
+
+export interface MovePlan {
+  from: string;
+  to: string;
+  changes: LinkChange[];
+  /** New content for every file whose links change, keyed by its path before the move */
+  updatedContents: Map<string, string>;
+}
+
+const WIKILINK_REGEX = /(!?)\[\[([^\]\n]+)\]\]/g;
+const MARKDOWN_LINK_REGEX = /(!?)\[([^\]\n]*)\]\((<[^>\n]+>|[^)\s]+)((?:\s+"[^"\n]*")?)\)/g;
+const FENCE_REGEX = /^\s*(```|~~~)/;
+
+function toPosix(file: string): string {
+  return file.split(path.sep).join('/');
+}
+
+function isExternalUrl(url: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:/i.test(url) || url.startsWith('#');
+}
+
+/**
+ * Split a markdown link destination into decoded path, #fragment, and whether it was url-encoded or <wrapped>
+ */
+function parseMarkdownDestination(raw: string): { target: string; fragment: string; encoded: boolean; wrapped: boolean } {
+  const wrapped = raw.startsWith('<') && raw.endsWith('>');
+  const inner = wrapped ? raw.slice(1, -1) : raw;
+  const hash = inner.indexOf('#');
+  const target = hash === -1 ? inner : inner.slice(0, hash);
+  let decoded = target;
+  try {
+    decoded = decodeURI(target);
+  } catch {
+    // Keep malformed escapes as written
+  }
+  return {
+    target: decoded,
+    fragment: hash === -1 ? '' : inner.slice(hash),
+    encoded: decoded !== target,
+    wrapped
+  };
+}
+
+function formatMarkdownDestination(target: string, fragment: string, encoded: boolean, wrapped: boolean): string {
+  if (wrapped) return `<${target}${fragment}>`;
+  if (encoded || /\s/.test(target)) return encodeURI(target) + fragment;
+  return target + fragment;
+}
+
+/**
+ * Rewrite the links in one note so that links to `from` point to `to`, written in the
+ * vault's new link format. `sourceFile` is where the note lives now and `newSourceFile`
+ * where it will live after the move.
+ */
+export function rewriteLinks(
+  content: string,
+  sourceFile: string,
+  newSourceFile: string,
+  from: string,
+  to: string,
+  filesBefore: string[],
+  filesAfter: string[],
+  linkFormat: NewLinkFormat = 'shortest'
+): { content: string; changes: Array<{ line: number; before: string; after: string }> } {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const lines = content.split(/\r?\n/);
+  const changes: Array<{ line: number; before: string; after: string }> = [];
+  const movedSelf = sourceFile !== newSourceFile;
+  const resolver = new LinkResolver(filesBefore);
+  const resolverAfter = new LinkResolver(filesAfter);
+  const toBasename = path.posix.basename(to, '.md');
+  const basenameIsUnique =
+    filesAfter.filter(f => path.posix.basename(f).toLowerCase() === path.posix.basename(to).toLowerCase()).length === 1;
+  let inFence = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const original = lines[i];
+    if (FENCE_REGEX.test(original)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+
+    let line = original.replace(WIKILINK_REGEX, (whole, embed: string, inner: string) => {
+      const { target, subpath, alias } = splitLinkTarget(inner);
+      if (!target.trim()) return whole;
+      if (resolver.resolve(target, sourceFile) !== from) return whole;
+
+      const keepExtension = target.trim().toLowerCase().endsWith('.md');
+      const usedPath = target.includes('/');
+      // The shortest format keeps a path the link already spelled out
+      let newTarget =
+        linkFormat !== 'shortest'
+          ? formatLinkPath(linkFormat, newSourceFile, to, filesAfter).replace(/\.md$/, '')
+          : usedPath || !basenameIsUnique
+          ? to.replace(/\.md$/, '')
+          : toBasename;
+      if (keepExtension) newTarget += '.md';
+      return `${embed}[[${newTarget}${subpath}${alias}]]`;
+    });
+
+    line = line.replace(MARKDOWN_LINK_REGEX, (whole, embed: string, text: string, dest: string, title: string) => {
+      const parsed = parseMarkdownDestination(dest);
+      if (!parsed.target || isExternalUrl(parsed.target)) return whole;
+
+      const resolved = resolver.resolve(parsed.target, sourceFile, true);
+      if (!resolved) return whole;
+      // Links into the moved note, and links inside the moved note that break when it moves
+      if (resolved !== from && (!movedSelf || resolverAfter.resolve(parsed.target, newSourceFile, true) === resolved)) {
+        return whole;
+      }
+
+      const destination = resolved === from ? to : resolved;
+      const droppedExtension = !parsed.target.toLowerCase().endsWith('.md') && destination.endsWith('.md');
+      let newTarget = formatLinkPath(linkFormat, newSourceFile, destination, filesAfter);
+      if (droppedExtension) newTarget = newTarget.replace(/\.md$/, '');
+      if (newTarget === parsed.target) return whole;
+
+      return `${embed}[${text}](${formatMarkdownDestination(newTarget, parsed.fragment, parsed.encoded, parsed.wrapped)}${title})`;
+    });
+
+    if (line !== original) {
+      lines[i] = line;
+      changes.push({ line: i + 1, before: original, after: line });
+    }
+  }
+
+  return { content: lines.join(eol), changes };
+}
+
+/**
+ * Moves notes and keeps every link that points at them working
+ */
+export class NoteMover {
+  private vault: FilesystemVault;
+  private search: FilesystemSearch;
+  private linkFormat: NewLinkFormat;
+
+  constructor(vault: FilesystemVault, search: FilesystemSearch, linkFormat: NewLinkFormat = 'shortest') {
+    this.vault = vault;
+    this.search = search;
+    this.linkFormat = linkFormat;
+  }
+
+  /**
+   * Work out every link that a move would change, without writing anything
+   */
+  async plan(from: string, to: string): Promise<MovePlan> {
+    // Notes excluded from search still have links to keep working
+    const filesBefore = (await this.search.getAllMarkdownFiles(true)).map(toPosix);
+    if (!filesBefore.includes(from)) {
+      throw new Error(`note "${from}" does not exist`);
+    }
+    if (filesBefore.some(f => f.toLowerCase() === to.toLowerCase() && f !== from)) {
+      throw new Error(`note "${to}" already exists`);
+    }
+    const filesAfter = filesBefore.filter(f => f !== from).concat(to);
+
+    // Wikilink sources come from the reverse link index; markdown links and excluded notes
+    // are not in it, so any other note mentioning the file name is checked as well
+    const backlinks = new Set((await this.search.getBacklinks(from.split('/').join(path.sep))).map(toPosix));
+    const fromName = path.posix.basename(from, '.md');
+    const candidates = new Set<string>([from, ...backlinks]);
+    for (const file of filesBefore) {
+      if (candidates.has(file)) continue;
+      const content = await this.vault.readNote(file);
+      if (content.includes(fromName) || content.includes(encodeURI(fromName))) {
+        candidates.add(file);
+      }
+    }
+
+    const changes: LinkChange[] = [];
+    const updatedContents = new Map<string, string>();
+    for (const file of candidates) {
+      const content = await this.vault.readNote(file);
+      const newSource = file === from ? to : file;
+      const rewritten = rewriteLinks(content, file, newSource, from, to, filesBefore, filesAfter, this.linkFormat);
+      if (rewritten.changes.length > 0) {
+        updatedContents.set(file, rewritten.content);
+        changes.push(...rewritten.changes.map(change => ({ file: newSource, ...change })));
+      }
+    }
+
+    return { from, to, changes, updatedContents };
+  }
+
+  /**
+   * Write the rewritten links, then move the note. If a write or the move fails, the notes
+   * already rewritten get their old content back and the note stays where it was; the
+   * error names any note that could not be restored.
+   */
+  async apply(plan: MovePlan): Promise<void> {
+    const originals = new Map<string, string>();
+    let failure: { step: string; error: unknown } | null = null;
+
+    for (const [file, content] of plan.updatedContents) {
+      try {
+        originals.set(file, await this.vault.readNote(file));
+        await this.vault.replaceNote(file, content);
+      } catch (error) {
+        failure = { step: `rewriting links in "${file}"`, error };
+        break;
+      }
+    }
+    if (!failure) {
+      try {
+        await this.vault.moveFile(plan.from, plan.to);
+        return;
+      } catch (error) {
+        failure = { step: `moving "${plan.from}" to "${plan.to}"`, error };
+      }
+    }
+
+    const notRestored: string[] = [];
+    for (const [file, original] of originals) {
+      try {
+        await this.vault.replaceNote(file, original);
+      } catch {
+        // The failed write may never have touched the note
+        const current = await this.vault.readNote(file).catch(() => null);
+        if (current !== original) notRestored.push(file);
+      }
+    }
+    const reason = failure.error instanceof Error ? failure.error.message : String(failure.error);
+    throw new Error(
+      `failed ${failure.step}: ${reason}. the note was not moved and ` +
+        (notRestored.length === 0
+          ? 'no links were changed'
+          : `these notes could not be restored and now link to "${plan.to}": ${notRestored.join(', ')}`)
+    );
+  }
+}
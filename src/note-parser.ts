@@ -0,0 +1,332 @@
+/**
+ * Markdown parsing helpers shared by filesystem search, graph analysis and the local Dataview engine
+ */
+import { LineCounter, parseDocument } from 'yaml';
+
+export interface InlineField {
+  key: string;
+  value: string;
+  line: number;
+}
+
+export interface TaskItem {
+  text: string;
+  status: string;
+  completed: boolean;
+  line: number;
+  fields: InlineField[];
+}
+
+const FENCE_REGEX = /^\s*(```|~~~)/;
+
+export interface ParsedFrontmatter {
+  data: Record<string, any>;
+  /** YAML errors with their line in the note; empty when the frontmatter is valid */
+  errors: string[];
+}
+
+// The block must open on the first line; either line ending, and an optional BOM
+const FRONTMATTER_REGEX = /^\uFEFF?---[ \t]*\r?\n(?:([\s\S]*?)\r?\n)?---[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Parse the YAML frontmatter of a note into typed values (numbers, booleans, lists, maps).
+ * Dates stay ISO strings, as Obsidian stores them in properties.
+ */
+export function parseFrontmatter(content: string): ParsedFrontmatter {
+  const match = content.match(FRONTMATTER_REGEX);
+  if (!match) return { data: {}, errors: [] };
+
+  const yaml = match[1] || '';
+  if (!yaml.trim()) return { data: {}, errors: [] };
+
+  const lineCounter = new LineCounter();
+  const document = parseDocument(yaml, { lineCounter, prettyErrors: false });
+  // Line numbers in the note are offset by the opening ---
+  const errors = document.errors.map(
+    error => `line ${lineCounter.linePos(error.pos[0]).line + 1}: ${error.message}`
+  );
+
+  let data: unknown;
+  try {
+    data = document.toJS();
+  } catch (error) {
+    errors.push(error instanceof Error ? error.message : String(error));
+    return { data: {}, errors };
+  }
+
+  if (data === null || data === undefined) return { data: {}, errors };
+  if (typeof data !== 'object' || Array.isArray(data)) {
+    errors.push('frontmatter is not a map of properties');
+    return { data: {}, errors };
+  }
+  return { data: data as Record<string, any>, errors };
+}
+
+/**
+ * Extract frontmatter from markdown content
+ */
+export function extractFrontmatter(content: string): Record<string, any> {
+  return parseFrontmatter(content).data;
+}
+
+/**
+ * Extract tags from markdown content
+ */
+export function extractTags(content: string): string[] {
+  const tags: Set<string> = new Set();
+  
+  // Frontmatter tags: a list, or a comma or space separated string
+  const frontmatter = extractFrontmatter(content);
+  const frontmatterTags = frontmatter.tags ?? frontmatter.tag;
+  if (Array.isArray(frontmatterTags)) {
+    frontmatterTags
+      .filter(tag => tag !== null && tag !== undefined && tag !== '')
+      .forEach(tag => tags.add(String(tag)));
+  } else if (typeof frontmatterTags === 'string' || typeof frontmatterTags === 'number') {
+    String(frontmatterTags)
+      .split(/[,\s]+/)
+      .filter(Boolean)
+      .forEach(tag => tags.add(tag));
+  }
+  
+  // Inline tags (#tag)
+  // A tag starts a line or follows whitespace, so [[Note#Heading]] and url anchors are not tags
+  const tagRegex = /(^|\s)(#[\w\-\_\/]+)/g;
+  let match;
+  while ((match = tagRegex.exec(content)) !== null) {
+    tags.add(match[2]);
+  }
+  
+  return Array.from(tags);
+}
+
+/**
+ * Key for comparing tags: frontmatter tags have no leading #, inline ones do, and Obsidian
+ * treats #Project and project as the same tag
+ */
+export function normalizeTag(tag: string): string {
+  return tag.replace(/^#/, '').toLowerCase();
+}
+
+export interface NoteLink {
+  /** Linked note or file as written, without #subpath or alias; empty for links within the note */
+  target: string;
+  /** `#Heading` or `#^block-id`, when the link points into the note */
+  subpath?: string;
+  /** Display text: the |alias of a wikilink or the [text] of a markdown link */
+  alias?: string;
+  /** `![[...]]` or `![](...)` */
+  embed: boolean;
+  type: 'wikilink' | 'markdown';
+  /** 1-based position of the link in the note */
+  line: number;
+  column: number;
+  /** The link exactly as written */
+  raw: string;
+}
+
+const WIKILINK_REGEX = /(!?)\[\[([^\[\]\n]+?)\]\]/g;
+const MARKDOWN_LINK_REGEX = /(!?)\[([^\]\n]*)\]\((<[^>\n]+>|[^)\s]+)(?:\s+"[^"\n]*")?\)/g;
+
+/**
+ * Extract wikilinks and internal markdown links, skipping code blocks and inline code.
+ * External URLs and same-page #anchors in markdown links are not note links.
+ */
+export function extractLinks(content: string): NoteLink[] {
+  const links: NoteLink[] = [];
+  const lines = content.split(/\r?\n/);
+  let inFence = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    if (FENCE_REGEX.test(lines[i])) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+
+    // Blank out inline code, keeping columns
+    const line = lines[i].replace(/(`+)[^`]*?\1/g, code => ' '.repeat(code.length));
+
+    let match;
+    WIKILINK_REGEX.lastIndex = 0;
+    while ((match = WIKILINK_REGEX.exec(line)) !== null) {
+      const inner = match[2];
+      const pipe = inner.indexOf('|');
+      const linkPart = pipe === -1 ? inner : inner.slice(0, pipe);
+      const hash = linkPart.indexOf('#');
+      links.push({
+        target: (hash === -1 ? linkPart : linkPart.slice(0, hash)).trim(),
+        ...(hash !== -1 && { subpath: linkPart.slice(hash).trim() }),
+        ...(pipe !== -1 && { alias: inner.slice(pipe + 1) }),
+        embed: match[1] === '!',
+        type: 'wikilink',
+        line: i + 1,
+        column: match.index + 1,
+        raw: match[0]
+      });
+    }
+
+    MARKDOWN_LINK_REGEX.lastIndex = 0;
+    while ((match = MARKDOWN_LINK_REGEX.exec(line)) !== null) {
+      let destination = match[3];
+      if (destination.startsWith('<')) destination = destination.slice(1, -1);
+      if (/^[a-z][a-z0-9+.-]*:/i.test(destination) || destination.startsWith('#')) continue;
+
+      const hash = destination.indexOf('#');
+      let target = hash === -1 ? destination : destination.slice(0, hash);
+      try {
+        target = decodeURI(target);
+      } catch {
+        // Keep malformed escapes as written
+      }
+      links.push({
+        target,
+        ...(hash !== -1 && { subpath: destination.slice(hash) }),
+        ...(match[2] && { alias: match[2] }),
+        embed: match[1] === '!',
+        type: 'markdown',
+        line: i + 1,
+        column: match.index + 1,
+        raw: match[0]
+      });
+    }
+  }
+
+  // Document order, with wikilinks and markdown links interleaved as they appear
+  return links.sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+export interface Heading {
+  text: string;
+  level: number;
+  line: number;
+}
+
+/**
+ * Extract ATX headings (`## Heading`), skipping fenced code blocks
+ */
+export function extractHeadings(content: string): Heading[] {
+  const headings: Heading[] = [];
+  const lines = content.split(/\r?\n/);
+  let inFence = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    if (FENCE_REGEX.test(lines[i])) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+
+    const match = lines[i].match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (match && match[2]) {
+      headings.push({ text: match[2], level: match[1].length, line: i + 1 });
+    }
+  }
+
+  return headings;
+}
+
+/**
+ * Extract block ids (`^id` at the end of a line), skipping fenced code blocks
+ */
+export function extractBlockIds(content: string): string[] {
+  const ids: string[] = [];
+  const lines = content.split(/\r?\n/);
+  let inFence = false;
+
+  for (const line of lines) {
+    if (FENCE_REGEX.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+
+    const match = line.match(/(?:^|\s)\^([\w-]+)\s*$/);
+    if (match) ids.push(match[1]);
+  }
+
+  return ids;
+}
+
+/**
+ * Note aliases from the `aliases` (or legacy `alias`) frontmatter property
+ */
+export function extractAliases(frontmatter: Record<string, any>): string[] {
+  const value = frontmatter.aliases ?? frontmatter.alias;
+  if (value === null || value === undefined || value === '') return [];
+  if (Array.isArray(value)) return value.map(String).filter(Boolean);
+  // A single string may hold comma-separated aliases
+  return String(value)
+    .split(',')
+    .map(alias => alias.trim().replace(/^["']|["']$/g, ''))
+    .filter(Boolean);
+}
+
+/**
+ * Extract Dataview inline fields: `key:: value` lines and bracketed `[key:: value]` / `(key:: value)`
+ */
+export function extractInlineFields(content: string): InlineField[] {
+  const fields: InlineField[] = [];
+  const lines = content.split(/\r?\n/);
+  let inFence = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (FENCE_REGEX.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+
+    fields.push(...extractBracketedFields(line, i + 1));
+
+    // Whole-line fields, optionally inside a list item
+    const match = line.match(/^\s*(?:[-*+]\s+)?([^\s\[\]():*`>#][^\[\]():`]*?)::\s*(.*)$/);
+    if (match && !/^\s*[-*+]\s+\[.\]/.test(line)) {
+      fields.push({ key: match[1].trim().replace(/^\*\*|\*\*$/g, ''), value: match[2].trim(), line: i + 1 });
+    }
+  }
+
+  return fields;
+}
+
+function extractBracketedFields(text: string, line: number): InlineField[] {
+  const fields: InlineField[] = [];
+  const regex = /[\[(]([^\[\]():]+?)::\s*([^\])]*)[\])]/g;
+  let match;
+  while ((match = regex.exec(text)) !== null) {
+    fields.push({ key: match[1].trim(), value: match[2].trim(), line });
+  }
+  return fields;
+}
+
+/**
+ * Extract markdown tasks (`- [ ] text`) with their status and inline fields
+ */
+export function extractTasks(content: string): TaskItem[] {
+  const tasks: TaskItem[] = [];
+  const lines = content.split(/\r?\n/);
+  const taskRegex = /^\s*(?:[-*+]|\d+[.)])\s+\[(.)\]\s+(.*)$/;
+  let inFence = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    if (FENCE_REGEX.test(lines[i])) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+
+    const match = lines[i].match(taskRegex);
+    if (!match) continue;
+
+    tasks.push({
+      text: match[2].trim(),
+      status: match[1],
+      completed: match[1].toLowerCase() === 'x',
+      line: i + 1,
+      fields: extractBracketedFields(match[2], i + 1)
+    });
+  }
+
+  return tasks;
+}
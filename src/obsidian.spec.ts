@@ -0,0 +1,88 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { Obsidian, isConnectionRefused } from './obsidian';
+
+// A stand-in for the Local REST API that counts requests and never answers them
+async function startSilentPlugin(): Promise<{ port: number; requests: string[]; close: () => void }> {
+  const requests: string[] = [];
+  const server = http.createServer(req => {
+    requests.push(req.method || 'GET');
+    req.resume();
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return {
+    port: (server.address() as AddressInfo).port,
+    requests,
+    close: () => {
+      server.closeAllConnections();
+      server.close();
+    }
+  };
+}
+
+function client(port: number): Obsidian {
+  return new Obsidian({ apiKey: 'key', host: '127.0.0.1', port, timeoutMs: 200, maxRetries: 3, retryDelayMs: 10 });
+}
+
+test('a patch that times out is sent once and not treated as unreachable', async () => {
+  const plugin = await startSilentPlugin();
+  try {
+    const error = await client(plugin.port)
+      .patchFile('Note.md', { operation: 'append', targetType: 'heading', target: 'Log', content: '- item' })
+      .then(
+        () => assert.fail('the patch should time out'),
+        (error: unknown) => error
+      );
+
+    assert.deepEqual(plugin.requests, ['PATCH']);
+    assert.match(String(error), /timed out/);
+    // The tool only redoes the patch on the vault files when the api was never reached
+    assert.equal(isConnectionRefused(error), false);
+  } finally {
+    plugin.close();
+  }
+});
+
+test('an append that times out is sent once', async () => {
+  const plugin = await startSilentPlugin();
+  try {
+    await assert.rejects(client(plugin.port).appendToFile('Note.md', '- item'), /timed out/);
+    assert.deepEqual(plugin.requests, ['POST']);
+  } finally {
+    plugin.close();
+  }
+});
+
+test('a search that times out is retried', async () => {
+  const plugin = await startSilentPlugin();
+  try {
+    await assert.rejects(client(plugin.port).search('meeting'), /timed out/);
+    assert.deepEqual(plugin.requests, ['POST', 'POST', 'POST', 'POST']);
+  } finally {
+    plugin.close();
+  }
+});
+
+test('a read that times out is retried', async () => {
+  const plugin = await startSilentPlugin();
+  try {
+    await assert.rejects(client(plugin.port).getFileContent('Note.md'), /timed out/);
+    assert.deepEqual(plugin.requests, ['GET', 'GET', 'GET', 'GET']);
+  } finally {
+    plugin.close();
+  }
+});
+
+test('a refused connection is safe to redo on the vault files', async () => {
+  const plugin = await startSilentPlugin();
+  plugin.close();
+  const error = await client(plugin.port)
+    .patchFile('Note.md', { operation: 'append', targetType: 'heading', target: 'Log', content: '- item' })
+    .then(
+      () => assert.fail('nothing is listening'),
+      (error: unknown) => error
+    );
+  assert.equal(isConnectionRefused(error), true);
+});
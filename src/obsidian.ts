@@ -1,5 +1,9 @@
 import { z } from "zod";
 import { performance } from "perf_hooks";
+import * as https from "https";
+import * as net from "net";
+import * as tls from "tls";
+import type { PatchInstruction } from "./markdown-patch";
 
 // Helper function for JSON logging to stderr
 function logObsidianEvent(
@@ -111,6 +115,25 @@ const ListFilesInputSchema = z.object({
     ),
 });
 
+const WriteFileInputSchema = z.object({
+  filepath: z
+    .string()
+    .min(1, "filepath cannot be empty")
+    .max(1000, "filepath too long")
+    .describe(
+      "Path to the file relative to the vault root (e.g., 'Notes/My Note.md')"
+    ),
+  content: z.string().max(5_000_000, "content too long"),
+});
+
+const PatchFileInputSchema = z.object({
+  filepath: WriteFileInputSchema.shape.filepath,
+  operation: z.enum(["append", "prepend", "replace"]),
+  targetType: z.enum(["heading", "block", "frontmatter"]),
+  target: z.string().min(1, "target cannot be empty").max(1000, "target too long"),
+  content: WriteFileInputSchema.shape.content,
+});
+
 // Circuit breaker for handling repeated failures
 // Circuit breaker for handling repeated failures with improved recovery
 class CircuitBreaker {
@@ -227,11 +250,122 @@ class CircuitBreaker {
   }
 }
 
+// --- TLS for the plugin's HTTPS server ---
+
+export type ObsidianProtocol = "http" | "https";
+
+/** Default ports of the Local REST API plugin: its HTTP server, and its HTTPS server with a self-signed certificate */
+export const OBSIDIAN_DEFAULT_PORTS: Record<ObsidianProtocol, number> = {
+  http: 27123,
+  https: 27124,
+};
+
+/**
+ * How to trust the plugin's self-signed certificate. These settings apply to one
+ * client's connections only; TLS verification stays on for the rest of the process.
+ */
+export interface ObsidianTlsOptions {
+  /** The plugin's certificate in PEM form, as served at /obsidian-local-rest-api.crt */
+  ca?: string | Buffer;
+  /** SHA-256 fingerprint of the certificate, in hex with or without colons */
+  fingerprint?: string;
+  /** Accept whatever certificate the server presents */
+  trustSelfSigned?: boolean;
+}
+
+function normalizeFingerprint(fingerprint: string): string {
+  return fingerprint.replace(/[\s:]/g, "").toUpperCase();
+}
+
+// Accepts only the certificate with the pinned fingerprint. The socket is handed to
+// the request after the check, so nothing is sent to a server that fails it.
+class PinnedCertificateAgent extends https.Agent {
+  constructor(private fingerprint: string, options: https.AgentOptions) {
+    super(options);
+  }
+
+  createConnection(
+    options: tls.ConnectionOptions,
+    callback: (error: Error | null, socket?: tls.TLSSocket) => void
+  ): undefined {
+    // The chain is checked by fingerprint below instead, as nothing signs the plugin's certificate
+    const socket = tls.connect({ ...options, rejectUnauthorized: false });
+    const onError = (error: Error) => callback(error);
+    socket.once("error", onError);
+    socket.once("secureConnect", () => {
+      socket.removeListener("error", onError);
+      const actual = normalizeFingerprint(
+        socket.getPeerCertificate().fingerprint256 ?? ""
+      );
+      if (actual !== this.fingerprint) {
+        socket.destroy();
+        callback(
+          new Error(
+            `certificate fingerprint mismatch for ${options.host}:${options.port}: expected ${this.fingerprint}, got ${actual || "no certificate"}`
+          )
+        );
+        return;
+      }
+      callback(null, socket);
+    });
+    return undefined;
+  }
+}
+
+function createTlsAgent(options: ObsidianTlsOptions): https.Agent {
+  const modes = [options.ca, options.fingerprint, options.trustSelfSigned].filter(Boolean);
+  if (modes.length > 1) {
+    throw new Error(
+      "use only one of a certificate file, a certificate fingerprint or trusting the self-signed certificate"
+    );
+  }
+  if (options.fingerprint) {
+    const fingerprint = normalizeFingerprint(options.fingerprint);
+    if (!/^[0-9A-F]{64}$/.test(fingerprint)) {
+      throw new Error(
+        "invalid certificate fingerprint, expected the 64 hex digits of a sha-256 fingerprint"
+      );
+    }
+    return new PinnedCertificateAgent(fingerprint, { keepAlive: true });
+  }
+  return new https.Agent({
+    keepAlive: true,
+    ca: options.ca,
+    rejectUnauthorized: !options.trustSelfSigned,
+  });
+}
+
+// Requests that change a note each time they arrive. One that timed out or got a 5xx
+// may still have been applied, so it is never sent again.
+const NON_REPEATABLE_METHODS = ["PATCH", "POST"];
+
+// The search endpoints use POST without changing anything, so they mark themselves
+// readOnly to keep their retries.
+interface ApiRequest extends RequestInit {
+  readOnly?: boolean;
+}
+
+function networkErrorCode(error: unknown): string | undefined {
+  const withCode = error as { code?: unknown; cause?: { code?: unknown } } | null;
+  const code = withCode?.code ?? withCode?.cause?.code;
+  return typeof code === "string" ? code : undefined;
+}
+
+/**
+ * Whether an api error means the request never reached the plugin: nothing listening,
+ * the host not found, or the circuit breaker holding requests back. Only then is it
+ * safe to redo a write on the vault files; after a timeout it may already be applied.
+ */
+export function isConnectionRefused(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return /ECONNREFUSED|ENOTFOUND|EAI_AGAIN|EHOSTUNREACH|circuit breaker is open/.test(message);
+}
+
 // --- Obsidian API Client Class ---
 
 export class Obsidian {
   private apiKey: string;
-  private protocol: string;
+  private protocol: ObsidianProtocol;
   private host: string;
   private port: number;
   private timeoutMs: number;
@@ -239,35 +373,43 @@ export class Obsidian {
   private retryDelayMs: number;
   private circuitBreaker: CircuitBreaker;
   private requestCounter = 0;
+  // Set for https, where fetch cannot take the client's own certificate settings
+  private agent?: https.Agent;
 
   constructor(options: {
     apiKey: string;
-    protocol?: string;
+    protocol?: ObsidianProtocol;
     host?: string;
     port?: number;
     timeoutMs?: number;
     maxRetries?: number;
     retryDelayMs?: number;
+    tls?: ObsidianTlsOptions;
   }) {
     if (!options.apiKey) {
       throw new Error("obsidian api key is required.");
     }
 
-    // Auto-detect config if not provided
-    const autoConfig = detectObsidianConfig();
-
     this.apiKey = options.apiKey;
     this.protocol = options.protocol ?? "http";
+
+    // Fall back to the environment or the plugin's defaults
+    const autoConfig = defaultObsidianConfig(this.protocol);
+
     this.host = options.host ?? autoConfig.host;
     this.port = options.port ?? autoConfig.port;
     this.timeoutMs = options.timeoutMs ?? 15000;
     this.maxRetries = options.maxRetries ?? 3;
     this.retryDelayMs = options.retryDelayMs ?? 1000;
     this.circuitBreaker = new CircuitBreaker();
+    if (this.protocol === "https") {
+      this.agent = createTlsAgent(options.tls ?? {});
+    }
 
     logObsidianEvent("info", `initialized client: ${this.getBaseUrl()}`, {
       host: this.host,
       port: this.port,
+      ...(this.protocol === "https" && { certificate: describeTls(options.tls) }),
     });
     logObsidianEvent("info", `configuration`, {
       timeoutMs: this.timeoutMs,
@@ -289,6 +431,66 @@ export class Obsidian {
     };
   }
 
+  // Plain http goes through fetch. Https uses the client's agent, which fetch cannot take,
+  // so the response is built the same way for callers.
+  private request(url: string, init: RequestInit): Promise<Response> {
+    const agent = this.agent;
+    if (!agent) return fetch(url, init);
+
+    return new Promise((resolve, reject) => {
+      const req = https.request(
+        url,
+        {
+          method: init.method ?? "GET",
+          headers: init.headers as Record<string, string>,
+          agent,
+          signal: init.signal ?? undefined,
+        },
+        (res) => {
+          const chunks: Buffer[] = [];
+          res.on("data", (chunk: Buffer) => chunks.push(chunk));
+          res.on("error", reject);
+          res.on("end", () => {
+            const headers = new Headers();
+            for (const [name, value] of Object.entries(res.headers)) {
+              if (value === undefined) continue;
+              for (const item of Array.isArray(value) ? value : [value]) {
+                headers.append(name, item);
+              }
+            }
+            const status = res.statusCode ?? 500;
+            // Responses to these statuses cannot have a body
+            const body = [204, 205, 304].includes(status) ? null : Buffer.concat(chunks);
+            resolve(
+              new Response(body, {
+                status,
+                statusText: res.statusMessage ?? "",
+                headers,
+              })
+            );
+          });
+        }
+      );
+      req.on("error", reject);
+      if (init.body !== undefined && init.body !== null) {
+        req.write(init.body as string);
+      }
+      req.end();
+    });
+  }
+
+  // Point certificate failures at the options that trust the plugin's certificate
+  private tlsHint(error: unknown): string {
+    const message = error instanceof Error ? error.message : String(error);
+    if (
+      this.protocol !== "https" ||
+      !/certificate|self[- ]signed|fingerprint|altnames/i.test(message)
+    ) {
+      return "";
+    }
+    return " 5) the plugin uses a self-signed certificate: pin it with --certPath or --certFingerprint, or pass --trustSelfSigned";
+  }
+
   private generateRequestId(): string {
     return `req-${++this.requestCounter}-${Date.now()}`;
   }
@@ -318,10 +520,13 @@ export class Obsidian {
 
   private async safeCall<T>(
     url: string,
-    options: RequestInit,
+    options: ApiRequest,
     responseSchema?: z.ZodType<T>,
     retryCount: number = 0
   ): Promise<T> {
+    const { readOnly, ...init } = options;
+    const repeatable =
+      readOnly || !NON_REPEATABLE_METHODS.includes((options.method || "GET").toUpperCase());
     const requestId = this.generateRequestId();
     const startTime = performance.now();
 
@@ -370,8 +575,8 @@ export class Obsidian {
     }
 
     try {
-      response = await fetch(url, {
-        ...options,
+      response = await this.request(url, {
+        ...init,
         headers: this.getHeaders(options.headers as Record<string, string>),
         signal: controller.signal,
       });
@@ -387,7 +592,7 @@ export class Obsidian {
           error.message.includes("ECONNRESET") ||
           error.message.includes("fetch failed"));
 
-      if (isRetryableError && retryCount < this.maxRetries) {
+      if (isRetryableError && repeatable && retryCount < this.maxRetries) {
         const backoffMs = this.retryDelayMs * Math.pow(2, retryCount); // Exponential backoff
         logObsidianEvent("warn", `request failed, retrying in ${backoffMs}ms`, {
           requestId,
@@ -405,12 +610,15 @@ export class Obsidian {
         );
       }
 
+      // fetch reports "fetch failed" and keeps the reason, such as ECONNREFUSED, in its cause
+      const reason = error instanceof Error ? error.message : String(error);
+      const code = networkErrorCode(error);
       throw new Error(
-        `${requestId} network error calling ${url}: ${
-          error instanceof Error ? error.message : String(error)
+        `${requestId} network error calling ${url}: ${reason}${
+          code && !reason.includes(code) ? ` (${code})` : ""
         }. troubleshooting: 1) check obsidian is running 2) verify local rest api plugin is active 3) confirm port ${
           this.port
-        } is correct 4) test connection manually`
+        } is correct 4) test connection manually${this.tlsHint(error)}`
       );
     }
 
@@ -443,7 +651,7 @@ export class Obsidian {
       this.circuitBreaker.recordFailure();
 
       // Retry on 5xx errors but not 4xx (client errors)
-      if (response.status >= 500 && retryCount < this.maxRetries) {
+      if (response.status >= 500 && repeatable && retryCount < this.maxRetries) {
         const backoffMs = this.retryDelayMs * Math.pow(2, retryCount);
         logObsidianEvent("warn", `server error, retrying`, {
           requestId,
@@ -607,7 +815,7 @@ export class Obsidian {
 
     const results = await this.safeCall(
       url,
-      { method: "POST" }, // Use POST as per OpenAPI spec
+      { method: "POST", readOnly: true }, // Use POST as per OpenAPI spec
       SearchResultsListSchema
     );
 
@@ -648,6 +856,7 @@ export class Obsidian {
       url,
       {
         method: "POST",
+        readOnly: true,
         headers: {
           "Content-Type": "application/vnd.olrapi.dataview.dql+txt",
         },
@@ -697,11 +906,12 @@ export class Obsidian {
   // Get circuit breaker status for debugging
   getStatus(): {
     circuitBreaker: { state: string; failures: number; lastFailure: number };
-    connection: { host: string; port: number; timeout: number };
+    connection: { protocol: ObsidianProtocol; host: string; port: number; timeout: number };
   } {
     return {
       circuitBreaker: this.circuitBreaker.getStatus(),
       connection: {
+        protocol: this.protocol,
         host: this.host,
         port: this.port,
         timeout: this.timeoutMs,
@@ -768,7 +978,7 @@ export class Obsidian {
 
     let response: Response;
     try {
-      response = await fetch(url, {
+      response = await this.request(url, {
         method: "GET",
         headers: this.getHeaders(),
         signal: controller.signal,
@@ -827,6 +1037,180 @@ export class Obsidian {
     }
   }
 
+  // Check whether a file exists without counting a 404 as a failure
+  async fileExists(filepath: string): Promise<boolean> {
+    const validation = GetFileContentInputSchema.safeParse({ filepath });
+    if (!validation.success) {
+      throw new Error(
+        `invalid fileExists parameters: ${validation.error.message}`
+      );
+    }
+    const sanitizedFilepath = validation.data.filepath.trim();
+
+    if (this.circuitBreaker.isOpen()) {
+      throw new Error(
+        `circuit breaker is open, cannot check existence of ${sanitizedFilepath}`
+      );
+    }
+
+    const url = `${this.getBaseUrl()}/vault/${encodeURIComponent(
+      sanitizedFilepath
+    )}`;
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    let response: Response;
+    try {
+      response = await this.request(url, {
+        method: "GET",
+        headers: this.getHeaders(),
+        signal: controller.signal,
+      });
+    } catch (error) {
+      clearTimeout(timeoutId);
+      this.circuitBreaker.recordFailure();
+      throw new Error(
+        `failed to check existence of ${sanitizedFilepath}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+
+    clearTimeout(timeoutId);
+    // Drain the body so the connection can be reused
+    await response.text().catch(() => "");
+
+    if (response.ok) {
+      this.circuitBreaker.recordSuccess();
+      return true;
+    }
+    if (response.status === 404) {
+      this.circuitBreaker.recordSuccess();
+      return false;
+    }
+
+    this.circuitBreaker.recordFailure();
+    throw new Error(
+      `obsidian api error ${response.status} checking ${sanitizedFilepath}: ${response.statusText}`
+    );
+  }
+
+  // Create or overwrite a file with the given content
+  async putFile(filepath: string, content: string): Promise<void> {
+    const validation = WriteFileInputSchema.safeParse({ filepath, content });
+    if (!validation.success) {
+      throw new Error(`invalid putFile parameters: ${validation.error.message}`);
+    }
+    const sanitizedFilepath = validation.data.filepath.trim();
+
+    logObsidianEvent("info", `writing file`, {
+      filepath: sanitizedFilepath,
+      contentLength: content.length,
+    });
+    const url = `${this.getBaseUrl()}/vault/${encodeURIComponent(
+      sanitizedFilepath
+    )}`;
+
+    await this.safeCall(url, {
+      method: "PUT",
+      headers: { "Content-Type": "text/markdown" },
+      body: content,
+    });
+
+    logObsidianEvent("info", `successfully wrote file`, {
+      filepath: sanitizedFilepath,
+    });
+  }
+
+  // Append content to a file, creating it if it does not exist
+  async appendToFile(filepath: string, content: string): Promise<void> {
+    const validation = WriteFileInputSchema.safeParse({ filepath, content });
+    if (!validation.success) {
+      throw new Error(
+        `invalid appendToFile parameters: ${validation.error.message}`
+      );
+    }
+    const sanitizedFilepath = validation.data.filepath.trim();
+
+    logObsidianEvent("info", `appending to file`, {
+      filepath: sanitizedFilepath,
+      contentLength: content.length,
+    });
+    const url = `${this.getBaseUrl()}/vault/${encodeURIComponent(
+      sanitizedFilepath
+    )}`;
+
+    await this.safeCall(url, {
+      method: "POST",
+      headers: { "Content-Type": "text/markdown" },
+      body: content,
+    });
+
+    logObsidianEvent("info", `successfully appended to file`, {
+      filepath: sanitizedFilepath,
+    });
+  }
+
+  // Targeted edit relative to a heading, block reference or frontmatter key
+  async patchFile(
+    filepath: string,
+    instruction: PatchInstruction
+  ): Promise<void> {
+    const validation = PatchFileInputSchema.safeParse({
+      filepath,
+      ...instruction,
+    });
+    if (!validation.success) {
+      throw new Error(
+        `invalid patchFile parameters: ${validation.error.message}`
+      );
+    }
+    const sanitizedFilepath = validation.data.filepath.trim();
+
+    logObsidianEvent("info", `patching file`, {
+      filepath: sanitizedFilepath,
+      operation: instruction.operation,
+      targetType: instruction.targetType,
+      target: instruction.target,
+    });
+    const url = `${this.getBaseUrl()}/vault/${encodeURIComponent(
+      sanitizedFilepath
+    )}`;
+
+    // Frontmatter values are sent as json so lists and numbers keep their type
+    let body = instruction.content;
+    let contentType = "text/markdown";
+    if (instruction.targetType === "frontmatter") {
+      contentType = "application/json";
+      try {
+        body = JSON.stringify(JSON.parse(instruction.content));
+      } catch {
+        body = JSON.stringify(instruction.content.trim());
+      }
+    }
+
+    const headers: Record<string, string> = {
+      "Content-Type": contentType,
+      Operation: instruction.operation,
+      "Target-Type": instruction.targetType,
+      // Header values must be ascii, the plugin url-decodes the target
+      Target: encodeURIComponent(instruction.target),
+    };
+    if (instruction.targetDelimiter) {
+      headers["Target-Delimiter"] = instruction.targetDelimiter;
+    }
+    if (instruction.createTargetIfMissing) {
+      headers["Create-Target-If-Missing"] = "true";
+    }
+
+    await this.safeCall(url, { method: "PATCH", headers, body });
+
+    logObsidianEvent("info", `successfully patched file`, {
+      filepath: sanitizedFilepath,
+    });
+  }
+
   async listFiles(
     directoryPath?: string
   ): Promise<z.infer<typeof FileListSchema>> {
@@ -936,12 +1320,25 @@ function getObsidianPath(): string {
   return "";
 }
 
-function detectObsidianConfig(): { host: string; port: number } {
+function describeTls(options: ObsidianTlsOptions = {}): string {
+  if (options.fingerprint) return "pinned fingerprint";
+  if (options.ca) return "pinned certificate";
+  if (options.trustSelfSigned) return "trusted without verification";
+  return "system certificate authorities";
+}
+
+function parseProtocol(value: string | undefined): ObsidianProtocol | undefined {
+  const protocol = value?.trim().toLowerCase();
+  return protocol === "http" || protocol === "https" ? protocol : undefined;
+}
+
+// Host and port for a client created without them
+function defaultObsidianConfig(protocol: ObsidianProtocol): { host: string; port: number } {
   const envHost = process.env.OBSIDIAN_HOST;
   const envPort = process.env.OBSIDIAN_PORT;
 
   const host = envHost || "127.0.0.1";
-  const port = envPort ? parseInt(envPort, 10) : 27123;
+  const port = envPort ? parseInt(envPort, 10) : OBSIDIAN_DEFAULT_PORTS[protocol];
 
   logObsidianEvent("info", `detected obsidian connection details`, {
     host,
@@ -950,3 +1347,64 @@ function detectObsidianConfig(): { host: string; port: number } {
   });
   return { host, port };
 }
+
+function isPortOpen(host: string, port: number, timeoutMs: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    const socket = net.connect({ host, port });
+    const done = (open: boolean) => {
+      socket.destroy();
+      resolve(open);
+    };
+    socket.setTimeout(timeoutMs, () => done(false));
+    socket.once("connect", () => done(true));
+    socket.once("error", () => done(false));
+  });
+}
+
+/**
+ * Where the Local REST API listens. An explicit port or protocol (from the options, or
+ * OBSIDIAN_PORT and OBSIDIAN_PROTOCOL) is used as given; otherwise both of the plugin's
+ * default ports are probed, preferring http when both answer since it needs no
+ * certificate. Probing only opens a TCP connection, so the api key is never sent.
+ */
+export async function detectObsidianConfig(
+  options: {
+    host?: string;
+    protocol?: ObsidianProtocol;
+    port?: number;
+    timeoutMs?: number;
+  } = {}
+): Promise<{ protocol: ObsidianProtocol; host: string; port: number; source: string }> {
+  const envPort = process.env.OBSIDIAN_PORT ? parseInt(process.env.OBSIDIAN_PORT, 10) : undefined;
+  const host = options.host ?? (process.env.OBSIDIAN_HOST || "127.0.0.1");
+  const protocol = options.protocol ?? parseProtocol(process.env.OBSIDIAN_PROTOCOL);
+  const port = options.port ?? (envPort !== undefined && !isNaN(envPort) ? envPort : undefined);
+
+  let detected: { protocol: ObsidianProtocol; host: string; port: number; source: string };
+  if (port !== undefined) {
+    detected = {
+      protocol: protocol ?? (port === OBSIDIAN_DEFAULT_PORTS.https ? "https" : "http"),
+      host,
+      port,
+      source: "configured",
+    };
+  } else if (protocol) {
+    detected = { protocol, host, port: OBSIDIAN_DEFAULT_PORTS[protocol], source: "configured" };
+  } else {
+    const timeoutMs = options.timeoutMs ?? 1000;
+    const [httpOpen, httpsOpen] = await Promise.all([
+      isPortOpen(host, OBSIDIAN_DEFAULT_PORTS.http, timeoutMs),
+      isPortOpen(host, OBSIDIAN_DEFAULT_PORTS.https, timeoutMs),
+    ]);
+    const found: ObsidianProtocol = !httpOpen && httpsOpen ? "https" : "http";
+    detected = {
+      protocol: found,
+      host,
+      port: OBSIDIAN_DEFAULT_PORTS[found],
+      source: httpOpen || httpsOpen ? "probe" : "defaults",
+    };
+  }
+
+  logObsidianEvent("info", `detected obsidian connection details`, detected);
+  return detected;
+}
@@ -0,0 +1,284 @@
+/**
+ * Obsidian-style search query language: words and "quoted phrases" (all must match),
+ * OR, AND, -term / NOT term, (grouping), qualifiers tag:, path:, file:, content:,
+ * line:(...), section:(...) and [property] / [property:value]
+ */
+
+import { normalizeTag } from './note-parser';
+
+export type TermField = 'content' | 'tag' | 'path' | 'file';
+
+export type QueryNode =
+  | { type: 'term'; value: string; field: TermField; phrase: boolean }
+  | { type: 'property'; name: string; value?: string }
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  | { type: 'line' | 'section'; child: QueryNode };
+
+/** The parts of a note a query is evaluated against */
+export interface SearchDocument {
+  path: string;
+  content: string;
+  tags: string[];
+  frontmatter: Record<string, any>;
+}
+
+type Token =
+  | { kind: 'lparen' | 'rparen' | 'or' | 'and' | 'not' | 'minus' }
+  | { kind: 'field'; field: TermField | 'line' | 'section' }
+  | { kind: 'word' | 'phrase'; value: string }
+  | { kind: 'property'; name: string; value?: string };
+
+const FIELDS = ['content', 'tag', 'path', 'file', 'line', 'section'];
+
+function tokenizeQuery(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readPhrase = (): string => {
+    // Opening quote at i
+    let value = '';
+    i++;
+    while (i < query.length && query[i] !== '"') {
+      if (query[i] === '\\' && i + 1 < query.length) i++;
+      value += query[i++];
+    }
+    i++;
+    return value;
+  };
+
+  while (i < query.length) {
+    const char = query[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(') {
+      tokens.push({ kind: 'lparen' });
+      i++;
+    } else if (char === ')') {
+      tokens.push({ kind: 'rparen' });
+      i++;
+    } else if (char === '-' && i + 1 < query.length && !/[\s)]/.test(query[i + 1])) {
+      tokens.push({ kind: 'minus' });
+      i++;
+    } else if (char === '"') {
+      tokens.push({ kind: 'phrase', value: readPhrase() });
+    } else if (char === '[') {
+      const end = query.indexOf(']', i);
+      if (end === -1) {
+        throw new Error('invalid search query: missing "]" after property');
+      }
+      const inner = query.slice(i + 1, end);
+      const colon = inner.indexOf(':');
+      const name = (colon === -1 ? inner : inner.slice(0, colon)).trim();
+      if (!name) {
+        throw new Error('invalid search query: empty property name');
+      }
+      const value = colon === -1 ? undefined : inner.slice(colon + 1).trim().replace(/^"(.*)"$/, '$1');
+      tokens.push({ kind: 'property', name, value });
+      i = end + 1;
+    } else {
+      let word = '';
+      while (i < query.length && !/[\s()"]/.test(query[i])) {
+        word += query[i++];
+      }
+
+      const qualifier = word.match(/^([a-z]+):(.*)$/i);
+      if (qualifier && FIELDS.includes(qualifier[1].toLowerCase())) {
+        tokens.push({ kind: 'field', field: qualifier[1].toLowerCase() as TermField | 'line' | 'section' });
+        if (qualifier[2]) tokens.push({ kind: 'word', value: qualifier[2] });
+      } else if (word === 'OR') {
+        tokens.push({ kind: 'or' });
+      } else if (word === 'AND') {
+        tokens.push({ kind: 'and' });
+      } else if (word === 'NOT') {
+        tokens.push({ kind: 'not' });
+      } else {
+        tokens.push({ kind: 'word', value: word });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse a search query into a tree, throwing on unbalanced parentheses or dangling operators
+ */
+export function parseSearchQuery(query: string): QueryNode {
+  const tokens = tokenizeQuery(query);
+  let position = 0;
+
+  const peek = (): Token | undefined => tokens[position];
+
+  function parseOr(field: TermField): QueryNode {
+    const children = [parseAnd(field)];
+    while (peek()?.kind === 'or') {
+      position++;
+      children.push(parseAnd(field));
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  }
+
+  function parseAnd(field: TermField): QueryNode {
+    const children: QueryNode[] = [];
+    while (position < tokens.length) {
+      const token = peek()!;
+      if (token.kind === 'rparen' || token.kind === 'or') break;
+      if (token.kind === 'and') {
+        position++;
+        continue;
+      }
+      children.push(parseUnary(field));
+    }
+    if (children.length === 0) {
+      throw new Error('invalid search query: expected a search term');
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  }
+
+  function parseUnary(field: TermField): QueryNode {
+    const token = peek();
+    if (token && (token.kind === 'minus' || token.kind === 'not')) {
+      position++;
+      return { type: 'not', child: parseUnary(field) };
+    }
+    return parsePrimary(field);
+  }
+
+  function parsePrimary(field: TermField): QueryNode {
+    const token = peek();
+    if (!token) {
+      throw new Error('invalid search query: expected a search term');
+    }
+    position++;
+
+    switch (token.kind) {
+      case 'lparen': {
+        const node = parseOr(field);
+        if (peek()?.kind !== 'rparen') {
+          throw new Error('invalid search query: missing ")"');
+        }
+        position++;
+        return node;
+      }
+      case 'field':
+        if (token.field === 'line' || token.field === 'section') {
+          return { type: token.field, child: parsePrimary('content') };
+        }
+        return parsePrimary(token.field);
+      case 'word':
+        return { type: 'term', value: token.value, field, phrase: false };
+      case 'phrase':
+        return { type: 'term', value: token.value, field, phrase: true };
+      case 'property':
+        return { type: 'property', name: token.name, value: token.value };
+      default:
+        throw new Error(`invalid search query: unexpected "${token.kind === 'rparen' ? ')' : token.kind.toUpperCase()}"`);
+    }
+  }
+
+  if (tokens.length === 0) {
+    throw new Error('invalid search query: the query is empty');
+  }
+  const root = parseOr('content');
+  if (position < tokens.length) {
+    throw new Error('invalid search query: unexpected ")"');
+  }
+  return root;
+}
+
+/**
+ * Whether a query is plain words, which the Local REST API's simple search can answer itself
+ */
+export function isPlainTextQuery(node: QueryNode): boolean {
+  if (node.type === 'term') return node.field === 'content' && !node.phrase;
+  if (node.type === 'and') return node.children.every(isPlainTextQuery);
+  return false;
+}
+
+/**
+ * Text of the terms a matching note must contain, for ranking and highlighting
+ */
+export function positiveContentTerms(node: QueryNode): string[] {
+  switch (node.type) {
+    case 'term':
+      return node.field === 'content' && node.value ? [node.value] : [];
+    case 'and':
+    case 'or':
+      return node.children.flatMap(positiveContentTerms);
+    case 'line':
+    case 'section':
+      return positiveContentTerms(node.child);
+    default:
+      return [];
+  }
+}
+
+function propertyMatches(frontmatter: Record<string, any>, name: string, value?: string): boolean {
+  const key = Object.keys(frontmatter).find(k => k.toLowerCase() === name.toLowerCase());
+  if (key === undefined) return false;
+  if (value === undefined || value === '') return true;
+
+  const wanted = value.toLowerCase();
+  const actual = frontmatter[key];
+  const values = Array.isArray(actual) ? actual : [actual];
+  return values.some(item => item !== null && item !== undefined && String(item).toLowerCase().includes(wanted));
+}
+
+/**
+ * Split a note into sections at each heading; text before the first heading is its own section
+ */
+function splitSections(content: string): string[] {
+  const sections: string[] = [];
+  let current: string[] = [];
+  for (const line of content.split('\n')) {
+    if (/^#{1,6}\s/.test(line) && current.length > 0) {
+      sections.push(current.join('\n'));
+      current = [];
+    }
+    current.push(line);
+  }
+  sections.push(current.join('\n'));
+  return sections;
+}
+
+/**
+ * Evaluate a query against a note. `text` is the part of the note that content terms
+ * are matched against: the whole note, or a single line or section when scoped.
+ */
+export function matchesQuery(node: QueryNode, doc: SearchDocument, text: string = doc.content): boolean {
+  switch (node.type) {
+    case 'term': {
+      const value = node.value.toLowerCase();
+      switch (node.field) {
+        case 'tag': {
+          const tag = normalizeTag(value);
+          return doc.tags.some(t => {
+            const normalized = normalizeTag(t);
+            return normalized === tag || normalized.startsWith(tag + '/');
+          });
+        }
+        case 'path':
+          return doc.path.replace(/\\/g, '/').toLowerCase().includes(value);
+        case 'file':
+          return (doc.path.split(/[\\/]/).pop() || '').toLowerCase().includes(value);
+        case 'content':
+        default:
+          return text.toLowerCase().includes(value);
+      }
+    }
+    case 'property':
+      return propertyMatches(doc.frontmatter, node.name, node.value);
+    case 'and':
+      return node.children.every(child => matchesQuery(child, doc, text));
+    case 'or':
+      return node.children.some(child => matchesQuery(child, doc, text));
+    case 'not':
+      return !matchesQuery(node.child, doc, text);
+    case 'line':
+      return text.split('\n').some(line => matchesQuery(node.child, doc, line));
+    case 'section':
+      return splitSections(text).some(section => matchesQuery(node.child, doc, section));
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Finds plain-text mentions of a note's title or aliases, the "unlinked mentions" of
+ * Obsidian's backlinks pane, and turns them into [[wikilinks]]
+ */
+
+export interface Mention {
+  /** 1-based position of the mention */
+  line: number;
+  column: number;
+  /** The mention as written */
+  text: string;
+  /** The whole line, trimmed */
+  context: string;
+}
+
+export interface MentionEdit {
+  line: number;
+  column: number;
+  text: string;
+  /** What the mention is replaced with, e.g. `[[Note|text]]` */
+  replacement: string;
+}
+
+const FENCE_REGEX = /^\s*(```|~~~)/;
+// Text where a mention must not be linked: inline code, existing links, URLs and tags
+const PROTECTED_REGEX = /(`+)[^`]*?\1|!?\[\[[^\]\n]*\]\]|!?\[[^\]\n]*\]\([^)\n]*\)|<?https?:\/\/[^\s>]+>?|(?:^|\s)#[\w\-\/]+/g;
+const WORD_CHAR_REGEX = /[a-z0-9_\u00C0-\uFFFF]/i;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Whole-word, case-insensitive occurrences of any of the names in a note, outside
+ * frontmatter, code, links, URLs and tags. Longer names win where names overlap.
+ */
+export function findMentions(content: string, names: string[]): Mention[] {
+  const unique = Array.from(new Set(names.map(name => name.trim()).filter(name => name.length > 0)));
+  if (unique.length === 0) return [];
+  const pattern = new RegExp(
+    unique.sort((a, b) => b.length - a.length).map(escapeRegExp).join('|'),
+    'gi'
+  );
+
+  const mentions: Mention[] = [];
+  const lines = content.split(/\r?\n/);
+  let inFence = false;
+  let inFrontmatter = lines[0]?.replace(/^\uFEFF/, '').trim() === '---';
+
+  for (let i = inFrontmatter ? 1 : 0; i < lines.length; i++) {
+    if (inFrontmatter) {
+      if (lines[i].trim() === '---') inFrontmatter = false;
+      continue;
+    }
+    if (FENCE_REGEX.test(lines[i])) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+
+    // Blank out protected text, keeping columns
+    const line = lines[i].replace(PROTECTED_REGEX, text => ' '.repeat(text.length));
+    pattern.lastIndex = 0;
+    let match;
+    while ((match = pattern.exec(line)) !== null) {
+      const before = line[match.index - 1];
+      const after = line[match.index + match[0].length];
+      if ((before && WORD_CHAR_REGEX.test(before)) || (after && WORD_CHAR_REGEX.test(after))) continue;
+      mentions.push({
+        line: i + 1,
+        column: match.index + 1,
+        text: lines[i].slice(match.index, match.index + match[0].length),
+        context: lines[i].trim()
+      });
+    }
+  }
+
+  return mentions;
+}
+
+/**
+ * Replace mentions with their links. Edits whose text is no longer at its position,
+ * e.g. because the note changed since the mentions were found, are skipped.
+ */
+export function linkMentions(content: string, edits: MentionEdit[]): { content: string; applied: number } {
+  const newline = content.includes('\r\n') ? '\r\n' : '\n';
+  const lines = content.split(/\r?\n/);
+  let applied = 0;
+
+  // Right to left, so earlier columns on the same line stay valid
+  const ordered = edits.slice().sort((a, b) => b.line - a.line || b.column - a.column);
+  for (const edit of ordered) {
+    const line = lines[edit.line - 1];
+    const start = edit.column - 1;
+    if (line === undefined || line.slice(start, start + edit.text.length) !== edit.text) continue;
+    lines[edit.line - 1] = line.slice(0, start) + edit.replacement + line.slice(start + edit.text.length);
+    applied++;
+  }
+
+  return { content: lines.join(newline), applied };
+}
@@ -6,12 +6,47 @@ export interface VaultInfo {
   path: string;
   name: string;
   hasObsidianFolder: boolean;
+  /** Where the vault was found: Obsidian's vault list, or a scan of common folders */
+  source: 'obsidian' | 'scan';
+  /** Obsidian's id for the vault */
+  id?: string;
+  /** When Obsidian last opened the vault, in ms since the epoch */
+  lastOpened?: number;
+  /** Whether the vault is open in Obsidian right now */
+  open?: boolean;
+}
+
+/**
+ * Locations of Obsidian's own config file, obsidian.json, which lists every vault
+ * the app knows about
+ */
+export function obsidianConfigPaths(
+  platform: NodeJS.Platform = os.platform(),
+  env: NodeJS.ProcessEnv = process.env,
+  home: string = os.homedir()
+): string[] {
+  if (platform === 'darwin') {
+    return [path.join(home, 'Library', 'Application Support', 'obsidian', 'obsidian.json')];
+  }
+  if (platform === 'win32') {
+    const appData = env.APPDATA || path.join(home, 'AppData', 'Roaming');
+    return [path.join(appData, 'obsidian', 'obsidian.json')];
+  }
+  const configHome = env.XDG_CONFIG_HOME || path.join(home, '.config');
+  return [
+    path.join(configHome, 'obsidian', 'obsidian.json'),
+    // Flatpak and Snap installs keep their config inside the sandbox
+    path.join(home, '.var', 'app', 'md.obsidian.Obsidian', 'config', 'obsidian', 'obsidian.json'),
+    path.join(home, 'snap', 'obsidian', 'current', '.config', 'obsidian', 'obsidian.json')
+  ];
 }
 
 export class VaultDetector {
   private commonVaultPaths: string[] = [];
+  private configPaths: string[];
   
-  constructor() {
+  constructor(configPaths: string[] = obsidianConfigPaths()) {
+    this.configPaths = configPaths;
     const home = os.homedir();
     const platform = os.platform();
     
@@ -69,9 +104,62 @@ export class VaultDetector {
   }
 
   /**
-   * Detect Obsidian vaults on the filesystem
+   * Vaults listed in Obsidian's obsidian.json, most recently opened first.
+   * Vaults whose folder no longer exists are left out.
+   */
+  async getRegisteredVaults(): Promise<VaultInfo[]> {
+    const vaults = new Map<string, VaultInfo>();
+
+    for (const configPath of this.configPaths) {
+      let config: any;
+      try {
+        config = JSON.parse(await fs.readFile(configPath, 'utf-8'));
+      } catch {
+        // Not installed this way, or unreadable
+        continue;
+      }
+      if (!config || typeof config.vaults !== 'object' || config.vaults === null) continue;
+
+      for (const [id, entry] of Object.entries<any>(config.vaults)) {
+        if (!entry || typeof entry.path !== 'string' || !entry.path) continue;
+        const vaultPath = path.resolve(entry.path);
+        if (!(await this.isDirectory(vaultPath))) continue;
+
+        const lastOpened = typeof entry.ts === 'number' ? entry.ts : undefined;
+        const known = vaults.get(vaultPath);
+        // The same vault in two installs: keep the most recent entry
+        if (known && (known.lastOpened ?? 0) >= (lastOpened ?? 0)) continue;
+        vaults.set(vaultPath, {
+          path: vaultPath,
+          name: path.basename(vaultPath),
+          hasObsidianFolder: await this.pathExists(path.join(vaultPath, '.obsidian')),
+          source: 'obsidian',
+          id,
+          ...(lastOpened !== undefined && { lastOpened }),
+          open: entry.open === true
+        });
+      }
+    }
+
+    return Array.from(vaults.values()).sort(
+      (a, b) => (b.lastOpened ?? 0) - (a.lastOpened ?? 0) || Number(b.open) - Number(a.open)
+    );
+  }
+
+  /**
+   * Detect Obsidian vaults: the ones Obsidian has registered, or when it has none
+   * (not installed, or never opened a vault), folders found in common locations
    */
   async detectVaults(): Promise<VaultInfo[]> {
+    const registered = await this.getRegisteredVaults();
+    if (registered.length > 0) return registered;
+    return this.scanForVaults();
+  }
+
+  /**
+   * Search common locations for folders that look like vaults
+   */
+  async scanForVaults(): Promise<VaultInfo[]> {
     const vaults: VaultInfo[] = [];
     const visited = new Set<string>();
 
@@ -101,7 +189,8 @@ export class VaultDetector {
   }
 
   /**
-   * Auto-detect the most likely vault
+   * Auto-detect the most likely vault: the one Obsidian opened last, or the best
+   * guess among scanned folders
    */
   async autoDetectVault(): Promise<string | null> {
     const vaults = await this.detectVaults();
@@ -110,6 +199,10 @@ export class VaultDetector {
       return null;
     }
 
+    if (vaults[0].source === 'obsidian') {
+      return vaults[0].path;
+    }
+
     // Priority order for common vault names
     const priorityNames = ['brain', 'vault', 'notes', 'obsidian', 'knowledge', 'second-brain', 'zettelkasten'];
     
@@ -198,7 +291,8 @@ export class VaultDetector {
         return {
           path: dir,
           name: path.basename(dir),
-          hasObsidianFolder
+          hasObsidianFolder,
+          source: 'scan'
         };
       }
     } catch (error) {
@@ -208,6 +302,14 @@ export class VaultDetector {
     return null;
   }
 
+  private async isDirectory(dir: string): Promise<boolean> {
+    try {
+      return (await fs.stat(dir)).isDirectory();
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * Check if a path exists
    */
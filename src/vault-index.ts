@@ -0,0 +1,560 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { createHash } from 'crypto';
+import {
+  NoteLink,
+  extractAliases,
+  extractBlockIds,
+  extractHeadings,
+  extractLinks,
+  extractTags,
+  parseFrontmatter
+} from './note-parser';
+
+const INDEX_VERSION = 5;
+
+export type SearchField = 'body' | 'title' | 'headings' | 'aliases' | 'tags';
+
+/** BM25F weight of a term occurrence in each field, relative to the note body */
+const FIELD_BOOSTS: Record<SearchField, number> = {
+  body: 1,
+  title: 3,
+  headings: 2,
+  aliases: 3,
+  tags: 2
+};
+
+/** BM25F length normalisation per field; short fields are normalised less */
+const FIELD_LENGTH_WEIGHT: Record<SearchField, number> = {
+  body: 0.75,
+  title: 0.3,
+  headings: 0.5,
+  aliases: 0.3,
+  tags: 0.3
+};
+
+const BM25_K1 = 1.2;
+
+// Query words that only occur inside longer words count for less than exact matches
+const PARTIAL_MATCH_WEIGHT = 0.5;
+
+// How long a refreshed index is trusted before the vault is stat-walked again
+const DEFAULT_MAX_AGE_MS = 10000;
+
+export interface IndexedNote {
+  path: string;
+  mtime: number;
+  ctime: number;
+  size: number;
+  /** Lowercased token -> number of occurrences, per ranking field */
+  fields: Record<SearchField, Record<string, number>>;
+  links: NoteLink[];
+  /** Heading texts and ^block ids, the targets of #subpath links */
+  headings: string[];
+  blockIds: string[];
+  tags: string[];
+  frontmatter: Record<string, any>;
+  /** YAML errors in the frontmatter, if any */
+  frontmatterErrors?: string[];
+}
+
+interface IndexFile {
+  version: number;
+  vaultPath: string;
+  updatedAt: number;
+  files: string[];
+  notes: Record<string, IndexedNote>;
+}
+
+export interface IndexStatus {
+  state: 'empty' | 'building' | 'ready' | 'error';
+  indexed_notes: number;
+  index_file: string;
+  last_refresh: string | null;
+  age_ms: number | null;
+  stale: boolean;
+  live_updates: boolean;
+  last_refresh_changes: { added: number; updated: number; removed: number };
+  last_refresh_duration_ms: number | null;
+  error?: string;
+}
+
+const TOKEN_REGEX = /[a-z0-9\u00C0-\uFFFF]+/g;
+
+/**
+ * Split text into lowercased word tokens, the unit stored in the index
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(TOKEN_REGEX) || [];
+}
+
+/**
+ * Persistent inverted index of note tokens, links, tags and frontmatter, keyed by path and mtime.
+ * Stored next to ~/.obsidian-mcp-config.json and refreshed incrementally.
+ */
+export class VaultIndex {
+  private vaultPath: string;
+  private indexFile: string;
+  private notes: Map<string, IndexedNote> = new Map();
+  private files: string[] = [];
+  private postings: Map<string, Set<string>> = new Map();
+  private loaded = false;
+  private state: IndexStatus['state'] = 'empty';
+  private lastError: string | undefined;
+  private lastRefresh = 0;
+  private lastRefreshDuration: number | null = null;
+  private lastChanges = { added: 0, updated: 0, removed: 0 };
+  private refreshing: Promise<void> | null = null;
+  private forceNextRefresh = false;
+  private maxAgeMs: number;
+  private liveUpdates = false;
+  private revision = 0;
+  private averages: Record<SearchField, number> | null = null;
+  private averagesRevision = -1;
+
+  constructor(vaultPath: string, maxAgeMs: number = DEFAULT_MAX_AGE_MS) {
+    this.vaultPath = vaultPath;
+    this.maxAgeMs = maxAgeMs;
+    const hash = createHash('sha1').update(path.resolve(vaultPath)).digest('hex').slice(0, 12);
+    this.indexFile = path.join(os.homedir(), `.obsidian-mcp-index-${hash}.json`);
+  }
+
+  /**
+   * Bring the index up to date, re-parsing only files whose mtime or size changed.
+   * Skipped when the last refresh is recent, unless forced or marked stale.
+   */
+  async refresh(listFiles: () => Promise<string[]>, force: boolean = false): Promise<IndexStatus> {
+    // While a watcher feeds changes in, the index stays current without re-walking the vault
+    const fresh = this.liveUpdates || Date.now() - this.lastRefresh < this.maxAgeMs;
+    if (!force && !this.forceNextRefresh && fresh && this.state === 'ready') {
+      return this.getStatus();
+    }
+
+    // Share one refresh between concurrent callers
+    if (!this.refreshing) {
+      this.refreshing = this.runRefresh(listFiles).finally(() => {
+        this.refreshing = null;
+      });
+    }
+    await this.refreshing;
+    return this.getStatus();
+  }
+
+  /**
+   * Apply changes reported by a watcher: re-parse changed files and drop removed ones
+   */
+  async applyChanges(changed: string[], removed: string[], renamed: Array<{ from: string; to: string }> = []): Promise<void> {
+    // A refresh in progress may have read the file before it changed
+    if (this.refreshing) await this.refreshing.catch(() => undefined);
+    // Changes before the first refresh are picked up by that refresh
+    if (this.state !== 'ready') return;
+    let modified = false;
+    const changes = { added: 0, updated: 0, removed: 0 };
+
+    for (const { from, to } of renamed) {
+      // Keep the file's place in vault order
+      const position = this.files.indexOf(from);
+      if (position !== -1) this.files[position] = to;
+      this.removeNote(from);
+      changed = changed.concat(to);
+      modified = true;
+    }
+
+    for (const file of removed) {
+      if (!this.notes.has(file) && !this.files.includes(file)) continue;
+      this.removeNote(file);
+      this.files = this.files.filter(f => f !== file);
+      changes.removed++;
+      modified = true;
+    }
+
+    for (const file of changed) {
+      const fullPath = path.join(this.vaultPath, file);
+      try {
+        const stats = await fs.stat(fullPath);
+        const existing = this.notes.get(file);
+        if (existing && existing.mtime === stats.mtimeMs && existing.size === stats.size) continue;
+        const content = await fs.readFile(fullPath, 'utf-8');
+        this.setNote(buildIndexedNote(file, content, stats));
+        if (!this.files.includes(file)) this.files.push(file);
+        if (existing) {
+          changes.updated++;
+        } else {
+          changes.added++;
+        }
+        modified = true;
+      } catch {
+        // Gone again before it could be read; a later event or refresh removes it
+      }
+    }
+
+    if (!modified) return;
+    this.revision++;
+    this.lastChanges = changes;
+    await this.saveToDisk();
+  }
+
+  /**
+   * Trust watcher updates instead of re-walking the vault when the index is older than the max age
+   */
+  setLiveUpdates(enabled: boolean): void {
+    this.liveUpdates = enabled;
+  }
+
+  /**
+   * Incremented whenever indexed content changes, so dependants know when to rebuild
+   */
+  getRevision(): number {
+    return this.revision;
+  }
+
+  /**
+   * Force the next refresh to stat the vault, e.g. after this server wrote a file
+   */
+  markStale(): void {
+    this.forceNextRefresh = true;
+  }
+
+  getStatus(): IndexStatus {
+    const age = this.lastRefresh > 0 ? Date.now() - this.lastRefresh : null;
+    return {
+      state: this.state,
+      indexed_notes: this.notes.size,
+      index_file: this.indexFile,
+      last_refresh: this.lastRefresh > 0 ? new Date(this.lastRefresh).toISOString() : null,
+      age_ms: age,
+      stale: this.forceNextRefresh || age === null || (!this.liveUpdates && age >= this.maxAgeMs),
+      live_updates: this.liveUpdates,
+      last_refresh_changes: { ...this.lastChanges },
+      last_refresh_duration_ms: this.lastRefreshDuration,
+      ...(this.lastError && { error: this.lastError })
+    };
+  }
+
+  /**
+   * Indexed files in vault walk order
+   */
+  getFiles(): string[] {
+    return this.files;
+  }
+
+  getNote(file: string): IndexedNote | undefined {
+    return this.notes.get(file);
+  }
+
+  getVocabulary(): IterableIterator<string> {
+    return this.postings.keys();
+  }
+
+  getPostings(term: string): Set<string> {
+    return this.postings.get(term) || new Set();
+  }
+
+  /**
+   * BM25F relevance of each given file for a free-text query. Title, heading, alias and tag
+   * matches are boosted over body matches. Scores are only comparable within one index.
+   */
+  score(query: string, files: Iterable<string>): Map<string, number> {
+    const scores = new Map<string, number>();
+    const queryTerms = this.expandQueryTerms(query);
+    const averages = this.averageFieldLengths();
+    const total = this.notes.size;
+
+    for (const file of files) {
+      const note = this.notes.get(file);
+      if (!note) {
+        scores.set(file, 0);
+        continue;
+      }
+
+      let score = 0;
+      for (const { term, weight } of queryTerms) {
+        let tf = 0;
+        for (const field of Object.keys(FIELD_BOOSTS) as SearchField[]) {
+          const count = note.fields[field][term];
+          if (!count) continue;
+          const length = fieldLength(note.fields[field]);
+          const b = FIELD_LENGTH_WEIGHT[field];
+          const norm = 1 - b + b * (averages[field] > 0 ? length / averages[field] : 1);
+          tf += (FIELD_BOOSTS[field] * count) / norm;
+        }
+        if (tf === 0) continue;
+
+        const df = this.getPostings(term).size;
+        const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+        score += weight * idf * ((tf * (BM25_K1 + 1)) / (tf + BM25_K1));
+      }
+      scores.set(file, score);
+    }
+
+    return scores;
+  }
+
+  /**
+   * Query tokens as index terms. A token that is not a word in the vault matches the
+   * longer words containing it, at a reduced weight.
+   */
+  private expandQueryTerms(query: string): Array<{ term: string; weight: number }> {
+    const expanded = new Map<string, number>();
+    for (const token of new Set(tokenize(query))) {
+      if (this.postings.has(token)) {
+        expanded.set(token, Math.max(expanded.get(token) || 0, 1));
+        continue;
+      }
+      for (const term of this.postings.keys()) {
+        if (term.includes(token)) {
+          expanded.set(term, Math.max(expanded.get(term) || 0, PARTIAL_MATCH_WEIGHT));
+        }
+      }
+    }
+    return Array.from(expanded, ([term, weight]) => ({ term, weight }));
+  }
+
+  private averageFieldLengths(): Record<SearchField, number> {
+    if (this.averagesRevision === this.revision && this.averages) return this.averages;
+
+    const totals: Record<SearchField, number> = { body: 0, title: 0, headings: 0, aliases: 0, tags: 0 };
+    for (const note of this.notes.values()) {
+      for (const field of Object.keys(totals) as SearchField[]) {
+        totals[field] += fieldLength(note.fields[field]);
+      }
+    }
+    const count = Math.max(this.notes.size, 1);
+    for (const field of Object.keys(totals) as SearchField[]) {
+      totals[field] /= count;
+    }
+
+    this.averages = totals;
+    this.averagesRevision = this.revision;
+    return totals;
+  }
+
+  /**
+   * Files whose content may contain `query` as a substring, narrowed through the token index.
+   * A token in the middle of the query must be a whole word in the note; the first and last
+   * tokens may be the end or start of a longer word.
+   */
+  findCandidates(query: string): Set<string> {
+    const lower = query.toLowerCase();
+    const tokens: Array<{ text: string; start: number; end: number }> = [];
+    const regex = new RegExp(TOKEN_REGEX.source, 'g');
+    let match;
+    while ((match = regex.exec(lower)) !== null) {
+      tokens.push({ text: match[0], start: match.index, end: match.index + match[0].length });
+    }
+
+    // Nothing to narrow on, e.g. a punctuation-only query
+    if (tokens.length === 0) return new Set(this.files);
+
+    let candidates: Set<string> | null = null;
+    for (const token of tokens) {
+      const boundedBefore = token.start > 0;
+      const boundedAfter = token.end < lower.length;
+      const files = new Set<string>();
+
+      if (boundedBefore && boundedAfter) {
+        this.getPostings(token.text).forEach(file => files.add(file));
+      } else {
+        for (const [term, termFiles] of this.postings) {
+          const matches = boundedBefore
+            ? term.startsWith(token.text)
+            : boundedAfter
+            ? term.endsWith(token.text)
+            : term.includes(token.text);
+          if (matches) termFiles.forEach(file => files.add(file));
+        }
+      }
+
+      candidates = candidates === null
+        ? files
+        : new Set<string>(Array.from<string>(candidates).filter(file => files.has(file)));
+      if (candidates.size === 0) break;
+    }
+
+    return candidates || new Set();
+  }
+
+  private async runRefresh(listFiles: () => Promise<string[]>): Promise<void> {
+    const startTime = Date.now();
+    this.forceNextRefresh = false;
+    if (this.state !== 'ready') this.state = 'building';
+
+    try {
+      if (!this.loaded) {
+        await this.loadFromDisk();
+        this.loaded = true;
+      }
+
+      const files = await listFiles();
+      const present = new Set(files);
+      const changes = { added: 0, updated: 0, removed: 0 };
+
+      for (const file of files) {
+        let stats;
+        try {
+          stats = await fs.stat(path.join(this.vaultPath, file));
+        } catch {
+          present.delete(file);
+          continue;
+        }
+
+        const existing = this.notes.get(file);
+        if (existing && existing.mtime === stats.mtimeMs && existing.size === stats.size) {
+          continue;
+        }
+
+        try {
+          const content = await fs.readFile(path.join(this.vaultPath, file), 'utf-8');
+          this.setNote(buildIndexedNote(file, content, stats));
+          if (existing) {
+            changes.updated++;
+          } else {
+            changes.added++;
+          }
+        } catch {
+          present.delete(file);
+        }
+      }
+
+      for (const file of Array.from(this.notes.keys())) {
+        if (!present.has(file)) {
+          this.removeNote(file);
+          changes.removed++;
+        }
+      }
+
+      const newFiles = files.filter(file => present.has(file));
+      const orderChanged = newFiles.length !== this.files.length || newFiles.some((file, i) => file !== this.files[i]);
+      if (orderChanged || changes.added + changes.updated + changes.removed > 0) this.revision++;
+      this.files = newFiles;
+      this.lastChanges = changes;
+      this.lastRefresh = Date.now();
+      this.lastRefreshDuration = this.lastRefresh - startTime;
+      this.state = 'ready';
+      this.lastError = undefined;
+
+      if (changes.added + changes.updated + changes.removed > 0) {
+        await this.saveToDisk();
+      }
+    } catch (error) {
+      this.state = this.notes.size > 0 ? 'ready' : 'error';
+      this.lastError = error instanceof Error ? error.message : String(error);
+      throw error;
+    }
+  }
+
+  private setNote(note: IndexedNote): void {
+    this.removeNote(note.path);
+    this.notes.set(note.path, note);
+    for (const term of searchableTerms(note)) {
+      let files = this.postings.get(term);
+      if (!files) {
+        files = new Set();
+        this.postings.set(term, files);
+      }
+      files.add(note.path);
+    }
+  }
+
+  private removeNote(file: string): void {
+    const existing = this.notes.get(file);
+    if (!existing) return;
+    for (const term of searchableTerms(existing)) {
+      const files = this.postings.get(term);
+      if (!files) continue;
+      files.delete(file);
+      if (files.size === 0) this.postings.delete(term);
+    }
+    this.notes.delete(file);
+  }
+
+  private async loadFromDisk(): Promise<void> {
+    try {
+      const data: IndexFile = JSON.parse(await fs.readFile(this.indexFile, 'utf-8'));
+      // Rebuild from scratch if the format changed or the file belongs to another vault
+      if (data.version !== INDEX_VERSION || data.vaultPath !== path.resolve(this.vaultPath)) {
+        return;
+      }
+      for (const note of Object.values(data.notes)) {
+        this.setNote(note);
+      }
+      this.files = data.files.filter(file => this.notes.has(file));
+    } catch {
+      // No index yet, or unreadable: start empty
+    }
+  }
+
+  private async saveToDisk(): Promise<void> {
+    const data: IndexFile = {
+      version: INDEX_VERSION,
+      vaultPath: path.resolve(this.vaultPath),
+      updatedAt: this.lastRefresh,
+      files: this.files,
+      notes: Object.fromEntries(this.notes)
+    };
+
+    // Write then rename so a crash never leaves a half-written index
+    const tempFile = `${this.indexFile}.${process.pid}.tmp`;
+    try {
+      await fs.writeFile(tempFile, JSON.stringify(data));
+      await fs.rename(tempFile, this.indexFile);
+    } catch {
+      // Couldn't save the index, not critical: it is rebuilt in memory
+      await fs.unlink(tempFile).catch(() => undefined);
+    }
+  }
+}
+
+function fieldLength(terms: Record<string, number>): number {
+  let length = 0;
+  for (const term in terms) length += terms[term];
+  return length;
+}
+
+/**
+ * Terms that make a note a search candidate: words in its content and its file name
+ */
+function searchableTerms(note: IndexedNote): Set<string> {
+  return new Set(Object.keys(note.fields.body).concat(Object.keys(note.fields.title)));
+}
+
+function countTerms(texts: string[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const text of texts) {
+    for (const token of tokenize(text)) {
+      counts[token] = (counts[token] || 0) + 1;
+    }
+  }
+  return counts;
+}
+
+function buildIndexedNote(
+  file: string,
+  content: string,
+  stats: { mtimeMs: number; ctimeMs: number; birthtimeMs: number; size: number }
+): IndexedNote {
+  const { data: frontmatter, errors: frontmatterErrors } = parseFrontmatter(content);
+  const tags = extractTags(content);
+  const headings = extractHeadings(content).map(heading => heading.text);
+
+  return {
+    path: file,
+    mtime: stats.mtimeMs,
+    ctime: stats.birthtimeMs || stats.ctimeMs,
+    size: stats.size,
+    fields: {
+      body: countTerms([content]),
+      title: countTerms([path.basename(file, '.md')]),
+      headings: countTerms(headings),
+      aliases: countTerms(extractAliases(frontmatter)),
+      tags: countTerms(tags)
+    },
+    links: extractLinks(content),
+    headings,
+    blockIds: extractBlockIds(content),
+    tags,
+    frontmatter,
+    ...(frontmatterErrors.length > 0 && { frontmatterErrors })
+  };
+}
@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { FilesystemSearch } from './filesystem-search';
+import { mergeRankedResults } from './vault-registry';
+
+async function makeVault(notes: Record<string, string>): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'vault-'));
+  for (const [name, content] of Object.entries(notes)) {
+    await fs.writeFile(path.join(dir, name), content);
+  }
+  return dir;
+}
+
+test('results from a small vault are not buried under a large one', async () => {
+  const large: Record<string, string> = {
+    'Budget review.md': '# Budget review\n\nThe budget for next year.\n',
+    'Offsite.md': '# Offsite\n\nVenue, catering and the travel budget.\n'
+  };
+  for (let i = 0; i < 80; i++) {
+    large[`Journal ${i}.md`] = `# Journal ${i}\n\nNotes about the garden, reading and errands.\n`;
+  }
+  const small = {
+    'Budget.md': '# Budget\n\nThe household budget.\n',
+    'Recipes.md': '# Recipes\n\nSoup and bread.\n'
+  };
+  const dirs = [await makeVault(large), await makeVault(small)];
+
+  try {
+    const searched = [];
+    for (const [i, dir] of dirs.entries()) {
+      const results = await new FilesystemSearch(dir).search({ query: 'budget', includeContent: false });
+      searched.push({ vault: i === 0 ? 'large' : 'small', results });
+    }
+    const score = (result: { score?: number }) => result.score ?? 0;
+    const smallTop = searched[1].results[0];
+    const largeMention = searched[0].results.find(result => result.path === 'Offsite.md')!;
+    // Raw BM25 favours the large vault's passing mention over the small vault's best note
+    assert.ok(score(largeMention) > score(smallTop));
+
+    const merged = mergeRankedResults(searched, score);
+    assert.deepEqual(
+      merged.map(result => `${result.vault}:${result.path}`),
+      ['large:Budget review.md', 'small:Budget.md', 'large:Offsite.md']
+    );
+  } finally {
+    await Promise.all(dirs.map(dir => fs.rm(dir, { recursive: true, force: true })));
+  }
+});
@@ -0,0 +1,197 @@
+/**
+ * Named vaults served by one server. Each vault has its own directory, search index,
+ * watcher and optional Local REST API client; tools pick one by name.
+ */
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { z } from 'zod';
+import { Obsidian } from './obsidian';
+import { FilesystemSearch } from './filesystem-search';
+import { FilesystemVault } from './filesystem-vault';
+import { DataviewEngine } from './dataview-engine';
+import { VaultWatcher } from './vault-watcher';
+import { NoteMover } from './note-mover';
+import { VaultSettings } from './vault-settings';
+
+export interface VaultConfig {
+  name: string;
+  path: string;
+  /** Local REST API of the Obsidian window that has this vault open */
+  apiKey?: string;
+  host?: string;
+  port?: number;
+  protocol?: 'http' | 'https';
+  /** The plugin's certificate for https: a PEM file, a sha-256 fingerprint, or trusted as is */
+  certPath?: string;
+  certFingerprint?: string;
+  trustSelfSigned?: boolean;
+}
+
+export interface VaultContext {
+  name: string;
+  path: string;
+  /** Whether a REST API key was configured for the vault */
+  hasApi: boolean;
+  /** Cleared when the api stops answering, so tools fall back to the vault files */
+  apiAvailable: boolean;
+  /** Excluded files and link format from the vault's .obsidian/app.json */
+  settings: VaultSettings;
+  obsidian: Obsidian;
+  filesystemSearch: FilesystemSearch;
+  filesystemVault: FilesystemVault;
+  dataviewEngine: DataviewEngine;
+  vaultWatcher: VaultWatcher;
+  noteMover: NoteMover;
+}
+
+const VaultConfigSchema = z.object({
+  name: z.string().trim().min(1).optional(),
+  path: z.string().trim().min(1),
+  apiKey: z.string().min(1).optional(),
+  host: z.string().min(1).optional(),
+  port: z.number().int().min(1).max(65535).optional(),
+  protocol: z.enum(['http', 'https']).optional(),
+  certPath: z.string().trim().min(1).optional(),
+  certFingerprint: z.string().trim().min(1).optional(),
+  trustSelfSigned: z.boolean().optional()
+});
+
+const VaultsFileSchema = z.union([
+  z.array(VaultConfigSchema),
+  z.object({ vaults: z.array(VaultConfigSchema) })
+]);
+
+function expandHome(filepath: string): string {
+  return filepath === '~' || filepath.startsWith('~/') || filepath.startsWith('~\\')
+    ? path.join(os.homedir(), filepath.slice(1))
+    : filepath;
+}
+
+/**
+ * Parse a `--vault` argument: `name=path`, or a bare path named after its folder
+ */
+export function parseVaultSpec(spec: string): VaultConfig {
+  const separator = spec.indexOf('=');
+  // A drive letter or a path containing '=' has no name before it
+  const named = separator > 0 && !/[\\/]/.test(spec.slice(0, separator));
+  const raw = (named ? spec.slice(separator + 1) : spec).trim();
+  if (!raw) throw new Error(`invalid vault "${spec}", expected name=path`);
+  const vaultPath = path.resolve(expandHome(raw));
+  return {
+    name: named ? spec.slice(0, separator).trim() : path.basename(vaultPath),
+    path: vaultPath
+  };
+}
+
+/**
+ * Read vault definitions from a JSON file: a list of `{ name, path, apiKey, host, port }`
+ * with optional https settings, or an object with a `vaults` list. Relative vault and
+ * certificate paths are resolved against the file.
+ */
+export async function readVaultsFile(file: string): Promise<VaultConfig[]> {
+  const configPath = path.resolve(expandHome(file));
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await fs.readFile(configPath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`could not read vaults file ${configPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const result = VaultsFileSchema.safeParse(parsed);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`invalid vaults file ${configPath}: ${issue.path.join('.') || 'root'}: ${issue.message}`);
+  }
+
+  const entries = Array.isArray(result.data) ? result.data : result.data.vaults;
+  return entries.map(entry => {
+    const vaultPath = path.resolve(path.dirname(configPath), expandHome(entry.path));
+    return {
+      ...entry,
+      name: entry.name || path.basename(vaultPath),
+      path: vaultPath,
+      ...(entry.certPath && { certPath: path.resolve(path.dirname(configPath), expandHome(entry.certPath)) })
+    };
+  });
+}
+
+/**
+ * Check vault names are unique (case-insensitively), as tools look vaults up by name.
+ * Only the default vault may use the --port flag for its api; every Obsidian window
+ * serves the REST API on its own port, so other vaults must set theirs.
+ */
+export function validateVaultConfigs(configs: VaultConfig[]): VaultConfig[] {
+  if (configs.length === 0) throw new Error('no vaults configured');
+  const seen = new Set<string>();
+  configs.forEach((config, i) => {
+    const key = config.name.toLowerCase();
+    if (seen.has(key)) {
+      throw new Error(`duplicate vault name "${config.name}", give each vault its own name with name=path`);
+    }
+    seen.add(key);
+    if (i > 0 && config.apiKey && config.port === undefined) {
+      throw new Error(`vault "${config.name}" has an apiKey but no port`);
+    }
+  });
+  return configs;
+}
+
+export class VaultRegistry {
+  private vaults: VaultContext[];
+
+  constructor(vaults: VaultContext[]) {
+    if (vaults.length === 0) throw new Error('no vaults configured');
+    this.vaults = vaults;
+  }
+
+  /** The vault used when a tool call names none: the first one configured */
+  get defaultVault(): VaultContext {
+    return this.vaults[0];
+  }
+
+  list(): VaultContext[] {
+    return this.vaults.slice();
+  }
+
+  find(name?: string): VaultContext | undefined {
+    if (name === undefined || name.trim() === '') return this.defaultVault;
+    const key = name.trim().toLowerCase();
+    return this.vaults.find(vault => vault.name.toLowerCase() === key);
+  }
+
+  get(name?: string): VaultContext {
+    const vault = this.find(name);
+    if (!vault) {
+      throw new Error(`unknown vault "${name}", available vaults: ${this.vaults.map(v => v.name).join(', ')}`);
+    }
+    return vault;
+  }
+
+  /** The named vault, or every vault when no name is given (for cross-vault search) */
+  select(name?: string): VaultContext[] {
+    return name === undefined || name.trim() === '' ? this.list() : [this.get(name)];
+  }
+}
+
+/**
+ * Merge per-vault rankings into one list, labelling each result with its vault. Scores
+ * from different vaults are not comparable (BM25 idf depends on each vault's size), so each
+ * is divided by its vault's top score before ordering; results keep their raw score.
+ * Equal relative scores keep each vault's own order, with vaults in configured order.
+ */
+export function mergeRankedResults<T extends object>(
+  perVault: Array<{ vault: string; results: T[] }>,
+  score: (result: T) => number
+): Array<T & { vault: string }> {
+  return perVault
+    .flatMap(({ vault, results }) => {
+      const top = Math.max(0, ...results.map(score));
+      return results.map(result => ({
+        result: { ...result, vault },
+        relative: top > 0 ? score(result) / top : 0
+      }));
+    })
+    .sort((a, b) => b.relative - a.relative)
+    .map(({ result }) => result);
+}
@@ -0,0 +1,15 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { DEFAULT_VAULT_SETTINGS, attachmentPath } from './vault-settings';
+
+test('attachments go where the attachment folder setting points', () => {
+  const placed = (attachmentFolderPath: string, notePath?: string) =>
+    attachmentPath({ ...DEFAULT_VAULT_SETTINGS, attachmentFolderPath }, 'graph.dot', notePath);
+
+  assert.equal(placed('/'), 'graph.dot');
+  assert.equal(placed('Files'), 'Files/graph.dot');
+  assert.equal(placed('/Files/'), 'Files/graph.dot');
+  assert.equal(placed('./', 'Projects/Plan.md'), 'Projects/graph.dot');
+  assert.equal(placed('./assets', 'Projects/Plan.md'), 'Projects/assets/graph.dot');
+  assert.equal(placed('./assets'), 'assets/graph.dot');
+});
@@ -0,0 +1,92 @@
+/**
+ * The vault settings from .obsidian/app.json that decide which files Obsidian searches,
+ * how it writes links and where new attachments go. Obsidian only stores settings that
+ * differ from its defaults.
+ */
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+export type NewLinkFormat = 'shortest' | 'relative' | 'absolute';
+
+export interface VaultSettings {
+  /** "Excluded files": path prefixes such as `Archive/`, or regular expressions written as `/.../` */
+  userIgnoreFilters: string[];
+  /** "Default location for new attachments": `/` for the vault root, `./` or `./folder` next to the note, or a vault folder */
+  attachmentFolderPath: string;
+  /** "New link format": shortest unique name, path relative to the note, or path from the vault root */
+  newLinkFormat: NewLinkFormat;
+  /** Write `[text](path.md)` links instead of [[wikilinks]] */
+  useMarkdownLinks: boolean;
+}
+
+export const DEFAULT_VAULT_SETTINGS: VaultSettings = {
+  userIgnoreFilters: [],
+  attachmentFolderPath: '/',
+  newLinkFormat: 'shortest',
+  useMarkdownLinks: false
+};
+
+const LINK_FORMATS: NewLinkFormat[] = ['shortest', 'relative', 'absolute'];
+
+/**
+ * Read a vault's app.json. Missing or malformed settings keep Obsidian's defaults.
+ */
+export async function loadVaultSettings(vaultPath: string, configDir: string = '.obsidian'): Promise<VaultSettings> {
+  let app: any;
+  try {
+    app = JSON.parse(await fs.readFile(path.join(vaultPath, configDir, 'app.json'), 'utf-8'));
+  } catch {
+    return { ...DEFAULT_VAULT_SETTINGS };
+  }
+  if (!app || typeof app !== 'object') return { ...DEFAULT_VAULT_SETTINGS };
+
+  return {
+    userIgnoreFilters: Array.isArray(app.userIgnoreFilters)
+      ? app.userIgnoreFilters.filter((filter: unknown): filter is string => typeof filter === 'string' && filter !== '')
+      : DEFAULT_VAULT_SETTINGS.userIgnoreFilters,
+    attachmentFolderPath:
+      typeof app.attachmentFolderPath === 'string' && app.attachmentFolderPath
+        ? app.attachmentFolderPath
+        : DEFAULT_VAULT_SETTINGS.attachmentFolderPath,
+    newLinkFormat: LINK_FORMATS.includes(app.newLinkFormat) ? app.newLinkFormat : DEFAULT_VAULT_SETTINGS.newLinkFormat,
+    useMarkdownLinks: typeof app.useMarkdownLinks === 'boolean' ? app.useMarkdownLinks : DEFAULT_VAULT_SETTINGS.useMarkdownLinks
+  };
+}
+
+/**
+ * Vault path for a new attachment, in the folder Obsidian would put it. `./` and
+ * `./folder` are relative to the note it belongs to, or the vault root without one.
+ */
+export function attachmentPath(settings: VaultSettings, fileName: string, notePath: string = ''): string {
+  const folder = settings.attachmentFolderPath;
+  const base = folder === '.' || folder.startsWith('./')
+    ? path.posix.join(path.posix.dirname(notePath), folder.slice(2))
+    : folder.replace(/^\/+/, '');
+  return path.posix.join(base, fileName);
+}
+
+/**
+ * Whether a vault-relative path is excluded by the user's filters. As in Obsidian, a
+ * filter between slashes is a regular expression tested against the path, and anything
+ * else matches paths starting with it.
+ */
+export function createExcludeFilter(filters: string[]): (relativePath: string) => boolean {
+  const matchers = filters.map(filter => {
+    if (filter.length > 2 && filter.startsWith('/') && filter.endsWith('/')) {
+      try {
+        const regex = new RegExp(filter.slice(1, -1));
+        return (file: string) => regex.test(file);
+      } catch {
+        // Obsidian ignores filters that are not valid expressions
+        return () => false;
+      }
+    }
+    return (file: string) => file.startsWith(filter);
+  });
+  if (matchers.length === 0) return () => false;
+
+  return (relativePath: string) => {
+    const posix = relativePath.replace(/\\/g, '/');
+    return matchers.some(matches => matches(posix));
+  };
+}
@@ -0,0 +1,275 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type VaultChangeType = 'created' | 'modified' | 'deleted' | 'renamed';
+
+export interface VaultChange {
+  type: VaultChangeType;
+  /** Vault-relative path, using the platform separator like FilesystemSearch */
+  path: string;
+  /** Previous path for renames */
+  oldPath?: string;
+}
+
+export type VaultChangeListener = (changes: VaultChange[]) => void | Promise<void>;
+
+export type WatchMode = 'fs.watch' | 'polling' | 'off';
+
+interface WatcherOptions {
+  /** Quiet period before a burst of events is processed */
+  debounceMs?: number;
+  /** Rescan interval when native watching is unavailable */
+  pollIntervalMs?: number;
+  /** Skip native watching and always poll */
+  forcePolling?: boolean;
+}
+
+interface FileSnapshot {
+  mtimeMs: number;
+  size: number;
+  ino: number;
+}
+
+/**
+ * Whether a vault-relative path is outside the watched content:
+ * hidden entries such as .obsidian and .trash, and node_modules
+ */
+function isIgnored(relativePath: string): boolean {
+  return relativePath
+    .split(/[\\/]/)
+    .some(segment => segment.startsWith('.') || segment === 'node_modules');
+}
+
+/**
+ * Watches the vault directory and reports which files were created, modified,
+ * deleted or renamed. Uses recursive fs.watch with debouncing, and falls back to
+ * periodic rescans where native watching is unavailable.
+ */
+export class VaultWatcher {
+  private vaultPath: string;
+  private debounceMs: number;
+  private pollIntervalMs: number;
+  private forcePolling: boolean;
+  private snapshot: Map<string, FileSnapshot> = new Map();
+  private listeners: VaultChangeListener[] = [];
+  private watcher: fs.FSWatcher | null = null;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private debounceTimer: NodeJS.Timeout | null = null;
+  private pendingPaths: Set<string> = new Set();
+  private pendingFullScan = false;
+  private flushing: Promise<void> = Promise.resolve();
+  private mode: WatchMode = 'off';
+
+  constructor(vaultPath: string, options: WatcherOptions = {}) {
+    this.vaultPath = vaultPath;
+    this.debounceMs = options.debounceMs ?? 200;
+    this.pollIntervalMs = options.pollIntervalMs ?? 5000;
+    this.forcePolling = options.forcePolling ?? false;
+  }
+
+  onChange(listener: VaultChangeListener): void {
+    this.listeners.push(listener);
+  }
+
+  offChange(listener: VaultChangeListener): void {
+    this.listeners = this.listeners.filter(l => l !== listener);
+  }
+
+  getMode(): WatchMode {
+    return this.mode;
+  }
+
+  /**
+   * Take the initial snapshot and start watching
+   */
+  async start(): Promise<WatchMode> {
+    if (this.mode !== 'off') return this.mode;
+
+    this.snapshot = await this.scan('');
+
+    if (!this.forcePolling) {
+      try {
+        this.watcher = fs.watch(this.vaultPath, { recursive: true, persistent: false }, (_event, filename) => {
+          this.queue(filename ? filename.toString() : null);
+        });
+        // e.g. the inotify watch limit was reached: keep working by polling
+        this.watcher.on('error', () => {
+          this.closeNativeWatcher();
+          this.startPolling();
+        });
+        this.mode = 'fs.watch';
+        return this.mode;
+      } catch {
+        // Recursive watching is not supported on this platform
+      }
+    }
+
+    this.startPolling();
+    return this.mode;
+  }
+
+  stop(): void {
+    this.closeNativeWatcher();
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    this.pollTimer = null;
+    this.debounceTimer = null;
+    this.pendingPaths.clear();
+    this.pendingFullScan = false;
+    this.mode = 'off';
+  }
+
+  /**
+   * Process queued events now instead of waiting for the debounce timer
+   */
+  async flush(): Promise<void> {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    this.flushing = this.flushing.then(() => this.processPending());
+    return this.flushing;
+  }
+
+  private closeNativeWatcher(): void {
+    if (this.watcher) {
+      this.watcher.close();
+      this.watcher = null;
+    }
+  }
+
+  private startPolling(): void {
+    this.mode = 'polling';
+    if (this.pollTimer) return;
+    this.pollTimer = setInterval(() => {
+      this.pendingFullScan = true;
+      this.flush().catch(() => undefined);
+    }, this.pollIntervalMs);
+    // Watching must not keep the process alive on its own
+    this.pollTimer.unref();
+  }
+
+  private queue(relativePath: string | null): void {
+    if (relativePath === null) {
+      // The platform did not say which file changed
+      this.pendingFullScan = true;
+    } else {
+      const normalized = path.normalize(relativePath);
+      if (isIgnored(normalized)) return;
+      this.pendingPaths.add(normalized);
+    }
+
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      this.flush().catch(() => undefined);
+    }, this.debounceMs);
+    this.debounceTimer.unref();
+  }
+
+  private async processPending(): Promise<void> {
+    const fullScan = this.pendingFullScan;
+    const scopes = Array.from(this.pendingPaths);
+    this.pendingFullScan = false;
+    this.pendingPaths.clear();
+    if (!fullScan && scopes.length === 0) return;
+
+    // An event on a folder can stand for everything inside it (e.g. a folder rename),
+    // so each event path is rescanned together with its subtree
+    const roots = fullScan ? [''] : scopes;
+    const before = new Map<string, FileSnapshot>();
+    const after = new Map<string, FileSnapshot>();
+    for (const root of roots) {
+      for (const [file, snap] of this.snapshot) {
+        if (isWithin(file, root)) before.set(file, snap);
+      }
+      for (const [file, snap] of await this.scan(root)) {
+        after.set(file, snap);
+      }
+    }
+
+    const created: string[] = [];
+    const deleted: string[] = [];
+    const changes: VaultChange[] = [];
+
+    for (const [file, snap] of after) {
+      const old = before.get(file);
+      if (!old) {
+        created.push(file);
+      } else if (old.mtimeMs !== snap.mtimeMs || old.size !== snap.size || old.ino !== snap.ino) {
+        changes.push({ type: 'modified', path: file });
+      }
+    }
+    for (const file of before.keys()) {
+      if (!after.has(file)) deleted.push(file);
+    }
+
+    // A file that disappeared and reappeared elsewhere with the same inode was renamed
+    for (const newPath of created) {
+      const snap = after.get(newPath)!;
+      const index = snap.ino
+        ? deleted.findIndex(oldPath => before.get(oldPath)!.ino === snap.ino && before.get(oldPath)!.size === snap.size)
+        : -1;
+      if (index !== -1) {
+        const [oldPath] = deleted.splice(index, 1);
+        changes.push({ type: 'renamed', path: newPath, oldPath });
+      } else {
+        changes.push({ type: 'created', path: newPath });
+      }
+    }
+    for (const file of deleted) {
+      changes.push({ type: 'deleted', path: file });
+    }
+
+    for (const file of before.keys()) this.snapshot.delete(file);
+    for (const [file, snap] of after) this.snapshot.set(file, snap);
+
+    if (changes.length === 0) return;
+    for (const listener of this.listeners) {
+      try {
+        await listener(changes);
+      } catch {
+        // One failing listener must not stop the others
+      }
+    }
+  }
+
+  /**
+   * Stat every file at or below a vault-relative path
+   */
+  private async scan(root: string): Promise<Map<string, FileSnapshot>> {
+    const result = new Map<string, FileSnapshot>();
+    const vaultPath = this.vaultPath;
+
+    async function visit(relativePath: string): Promise<void> {
+      let stats: fs.Stats;
+      try {
+        stats = await fs.promises.stat(path.join(vaultPath, relativePath));
+      } catch {
+        return;
+      }
+
+      if (stats.isDirectory()) {
+        let entries: string[];
+        try {
+          entries = await fs.promises.readdir(path.join(vaultPath, relativePath));
+        } catch {
+          return;
+        }
+        for (const entry of entries) {
+          const child = relativePath ? path.join(relativePath, entry) : entry;
+          if (!isIgnored(child)) await visit(child);
+        }
+      } else if (stats.isFile() && relativePath) {
+        result.set(relativePath, { mtimeMs: stats.mtimeMs, size: stats.size, ino: stats.ino });
+      }
+    }
+
+    await visit(root);
+    return result;
+  }
+}
+
+function isWithin(file: string, root: string): boolean {
+  return root === '' || file === root || file.startsWith(root + path.sep);
+}